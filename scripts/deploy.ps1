@@ -29,6 +29,7 @@ az functionapp config appsettings set --name $functionAppName --resource-group $
     KEY_VAULT_URL = "https://$keyVaultName.vault.azure.net/"
     AZURE_OPENAI_ENDPOINT = "https://your-openai-instance.openai.azure.com/"
     AZURE_OPENAI_API_KEY_SECRET_NAME = "azure-openai-api-key"
+    ALLOWED_ORIGINS = "https://your-react-app.com"
 } | ConvertTo-Json)
 
 # Enable system-assigned managed identity
@@ -45,5 +46,5 @@ az keyvault set-policy --name $keyVaultName --object-id $principalId --secret-pe
 Write-Host "Deployment complete!"
 Write-Host "Don't forget to:"
 Write-Host "1. Add your Azure OpenAI API key to Key Vault with name 'azure-openai-api-key'"
-Write-Host "2. Update the AZURE_OPENAI_ENDPOINT setting with your actual endpoint"
+Write-Host "2. Update the AZURE_OPENAI_ENDPOINT and ALLOWED_ORIGINS settings with your actual values"
 Write-Host "3. Deploy your function code using 'func azure functionapp publish $functionAppName'"
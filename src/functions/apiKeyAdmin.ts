@@ -0,0 +1,51 @@
+import { HttpRequest, HttpResponseInit } from '@azure/functions';
+import { apiKeyStore, ApiKeyStore } from '../services/apiKeys';
+import { HttpError, jsonResponse, registerRoute, RequestContext } from '../services/middleware';
+
+/**
+ * Create, list and revoke proxy API keys
+ * GET /api/keys lists keys, POST /api/keys creates one, DELETE /api/keys/{id} revokes one.
+ * Protected by a function key, since it mints credentials.
+ */
+export async function apiKeyAdmin(request: HttpRequest, ctx: RequestContext): Promise<HttpResponseInit> {
+    const { requestId, logger } = ctx;
+    const id = request.params.id;
+
+    if (request.method === 'GET' && !id) {
+        const keys = await apiKeyStore.list();
+        return jsonResponse(200, { success: true, data: keys });
+    }
+
+    if (request.method === 'POST' && !id) {
+        const error = ApiKeyStore.validateCreate(ctx.body);
+        if (error) {
+            throw new HttpError(400, error);
+        }
+
+        const created = await apiKeyStore.create(ctx.body);
+        logger.info('API key created', { requestId, keyId: created.record.id, name: created.record.name, scopes: created.record.scopes });
+
+        // The key is only ever shown in this response
+        return jsonResponse(201, { success: true, data: created });
+    }
+
+    if (request.method === 'DELETE' && id) {
+        const revoked = await apiKeyStore.revoke(id);
+        if (!revoked) {
+            throw new HttpError(404, 'API key not found');
+        }
+
+        logger.info('API key revoked', { requestId, keyId: id, name: revoked.name });
+        return jsonResponse(200, { success: true, data: revoked });
+    }
+
+    throw new HttpError(405, 'Method not allowed');
+}
+
+registerRoute('apiKeyAdmin', {
+    methods: ['GET', 'POST', 'DELETE'],
+    authLevel: 'function',
+    route: 'keys/{id?}',
+    cors: { allowHeaders: ['Content-Type', 'Authorization', 'x-functions-key'] },
+    body: 'json'
+}, apiKeyAdmin);
@@ -1,99 +1,19 @@
-import { app, HttpRequest, HttpResponseInit, InvocationContext } from '@azure/functions';
-import { SecretClient } from '@azure/keyvault-secrets';
-import { DefaultAzureCredential } from '@azure/identity';
-import { BlobStorageService } from '../services/blobStorageService';
-import { BlobStorageConfig, ApiResponse, BlobUploadRequest, BlobDownloadResponse, BlobOperationResult, BlobListItem } from '../types';
-import { Logger } from '../services/logger';
-import { v4 as uuidv4 } from 'uuid';
+import { HttpRequest, HttpResponseInit } from '@azure/functions';
+import { BlobStorageService, getBlobStorageConfig } from '../services/blobStorageService';
+import { ApiResponse, BlobUploadRequest, BlobDownloadResponse, BlobOperationResult, BlobListItem } from '../types';
+import { HttpError, registerRoute, requireScope, RequestContext } from '../services/middleware';
 
-// CORS headers for React app
-const corsHeaders = {
-    'Access-Control-Allow-Origin': '*', // Will be configured based on environment
-    'Access-Control-Allow-Methods': 'GET, POST, PUT, DELETE, OPTIONS',
-    'Access-Control-Allow-Headers': 'Content-Type, Authorization, x-user-id',
-    'Access-Control-Allow-Credentials': 'true',
+const jsonHeaders = {
     'Content-Type': 'application/json'
 };
 
-// Get Blob Storage configuration from Azure Key Vault or environment
-async function getBlobStorageConfig(context: InvocationContext): Promise<BlobStorageConfig> {
-    const logger = new Logger(context);
-    
-    try {
-        // Try Key Vault first (production)
-        const keyVaultUrl = process.env.KEY_VAULT_URL;
-        if (keyVaultUrl) {
-            logger.info('Attempting to retrieve blob storage config from Key Vault');
-            const credential = new DefaultAzureCredential();
-            const client = new SecretClient(keyVaultUrl, credential);
-            
-            try {
-                const connectionStringSecret = await client.getSecret('azure-storage-connection-string');
-                const containerName = process.env.AZURE_BLOB_CONTAINER_NAME || 'documents';
-                
-                if (connectionStringSecret.value) {
-                    return {
-                        connectionString: connectionStringSecret.value,
-                        containerName: containerName
-                    };
-                }
-            } catch (keyVaultError) {
-                logger.warn('Failed to retrieve from Key Vault, falling back to environment variables', {
-                    error: keyVaultError.message
-                });
-            }
-        }
-
-        // Fallback to environment variables (development or Key Vault failure)
-        const connectionString = process.env.AZURE_STORAGE_CONNECTION_STRING;
-        const accountName = process.env.AZURE_STORAGE_ACCOUNT_NAME;
-        const accountKey = process.env.AZURE_STORAGE_ACCOUNT_KEY;
-        const containerName = process.env.AZURE_BLOB_CONTAINER_NAME || 'documents';
-
-        if (connectionString) {
-            return {
-                connectionString: connectionString,
-                containerName: containerName
-            };
-        } else if (accountName && accountKey) {
-            return {
-                accountName: accountName,
-                accountKey: accountKey,
-                containerName: containerName
-            };
-        } else if (accountName) {
-            // Use managed identity
-            return {
-                accountName: accountName,
-                containerName: containerName
-            };
-        }
-
-        throw new Error('No blob storage configuration found in Key Vault or environment variables');
-    } catch (error) {
-        logger.error('Failed to get blob storage configuration', { error: error.message });
-        throw error;
-    }
-}
-
-export async function blobProxy(request: HttpRequest, context: InvocationContext): Promise<HttpResponseInit> {
-    const requestId = uuidv4();
-    const logger = new Logger(context);
-    const startTime = Date.now();
-
-    logger.info('Blob proxy request received', { requestId, method: request.method, url: request.url });
-
-    // Handle CORS preflight
-    if (request.method === 'OPTIONS') {
-        return {
-            status: 200,
-            headers: corsHeaders
-        };
-    }
+export async function blobProxy(request: HttpRequest, ctx: RequestContext): Promise<HttpResponseInit> {
+    const { requestId, logger, startTime } = ctx;
+    const userId = ctx.user!.userId;
 
     try {
         // Get blob storage configuration
-        const config = await getBlobStorageConfig(context);
+        const config = await getBlobStorageConfig(ctx.invocation);
         const blobService = new BlobStorageService(config);
 
         // Parse URL to get blob name and operation
@@ -118,7 +38,10 @@ export async function blobProxy(request: HttpRequest, context: InvocationContext
             }
         }
 
-        logger.info('Blob operation determined', { requestId, operation, blobName });
+        logger.info('Blob operation determined', { requestId, userId, operation, blobName });
+
+        // API keys need blob:write to change blobs and blob:read for everything else
+        requireScope(ctx, operation === 'upload' || operation === 'delete' ? 'blob:write' : 'blob:read');
 
         let result: any;
         const elapsedMs = Date.now() - startTime;
@@ -128,7 +51,7 @@ export async function blobProxy(request: HttpRequest, context: InvocationContext
                 if (!blobName) {
                     return {
                         status: 400,
-                        headers: corsHeaders,
+                        headers: jsonHeaders,
                         body: JSON.stringify({
                             success: false,
                             error: 'Blob name is required for upload operation'
@@ -158,6 +81,7 @@ export async function blobProxy(request: HttpRequest, context: InvocationContext
                 result = await blobService.uploadBlob(uploadRequest);
                 logger.info('Blob uploaded successfully', { 
                     requestId, 
+                    userId,
                     blobName, 
                     elapsedMs,
                     contentLength: uploadData.length
@@ -168,7 +92,7 @@ export async function blobProxy(request: HttpRequest, context: InvocationContext
                 if (!blobName) {
                     return {
                         status: 400,
-                        headers: corsHeaders,
+                        headers: jsonHeaders,
                         body: JSON.stringify({
                             success: false,
                             error: 'Blob name is required for download operation'
@@ -179,6 +103,7 @@ export async function blobProxy(request: HttpRequest, context: InvocationContext
                 result = await blobService.downloadBlob(blobName);
                 logger.info('Blob downloaded successfully', { 
                     requestId, 
+                    userId,
                     blobName, 
                     elapsedMs,
                     contentLength: result.contentLength
@@ -189,7 +114,7 @@ export async function blobProxy(request: HttpRequest, context: InvocationContext
                 if (!blobName) {
                     return {
                         status: 400,
-                        headers: corsHeaders,
+                        headers: jsonHeaders,
                         body: JSON.stringify({
                             success: false,
                             error: 'Blob name is required for delete operation'
@@ -198,7 +123,7 @@ export async function blobProxy(request: HttpRequest, context: InvocationContext
                 }
 
                 result = await blobService.deleteBlob(blobName);
-                logger.info('Blob deleted successfully', { requestId, blobName, elapsedMs });
+                logger.info('Blob deleted successfully', { requestId, userId, blobName, elapsedMs });
                 break;
 
             case 'list':
@@ -206,6 +131,7 @@ export async function blobProxy(request: HttpRequest, context: InvocationContext
                 result = await blobService.listBlobs(prefix);
                 logger.info('Blobs listed successfully', { 
                     requestId, 
+                    userId,
                     elapsedMs,
                     count: result.length,
                     prefix: prefix || 'none'
@@ -215,7 +141,7 @@ export async function blobProxy(request: HttpRequest, context: InvocationContext
             default:
                 return {
                     status: 400,
-                    headers: corsHeaders,
+                    headers: jsonHeaders,
                     body: JSON.stringify({
                         success: false,
                         error: `Unsupported operation: ${operation}`
@@ -226,7 +152,7 @@ export async function blobProxy(request: HttpRequest, context: InvocationContext
         // Return success response
         return {
             status: 200,
-            headers: corsHeaders,
+            headers: jsonHeaders,
             body: JSON.stringify({
                 success: true,
                 data: result
@@ -234,9 +160,14 @@ export async function blobProxy(request: HttpRequest, context: InvocationContext
         };
 
     } catch (error) {
+        if (error instanceof HttpError) {
+            throw error;
+        }
+
         const elapsedMs = Date.now() - startTime;
         logger.error('Blob proxy error', { 
             requestId, 
+            userId,
             elapsedMs,
             error: error.message,
             stack: error.stack
@@ -246,7 +177,7 @@ export async function blobProxy(request: HttpRequest, context: InvocationContext
         if (error.message.includes('not found')) {
             return {
                 status: 404,
-                headers: corsHeaders,
+                headers: jsonHeaders,
                 body: JSON.stringify({
                     success: false,
                     error: 'Blob not found'
@@ -257,7 +188,7 @@ export async function blobProxy(request: HttpRequest, context: InvocationContext
         if (error.message.includes('configuration')) {
             return {
                 status: 500,
-                headers: corsHeaders,
+                headers: jsonHeaders,
                 body: JSON.stringify({
                     success: false,
                     error: 'Blob storage configuration error'
@@ -267,7 +198,7 @@ export async function blobProxy(request: HttpRequest, context: InvocationContext
 
         return {
             status: 500,
-            headers: corsHeaders,
+            headers: jsonHeaders,
             body: JSON.stringify({
                 success: false,
                 error: 'Internal server error'
@@ -276,9 +207,12 @@ export async function blobProxy(request: HttpRequest, context: InvocationContext
     }
 }
 
-app.http('blobProxy', {
-    methods: ['GET', 'POST', 'PUT', 'DELETE', 'OPTIONS'],
-    authLevel: 'anonymous',
+registerRoute('blobProxy', {
+    methods: ['GET', 'POST', 'PUT', 'DELETE'],
     route: 'blob/{*path}',
-    handler: blobProxy
-});
\ No newline at end of file
+    cors: {
+        allowHeaders: ['Content-Type', 'Authorization', 'x-api-key', 'x-user-id'],
+        exposeHeaders: ['WWW-Authenticate']
+    },
+    auth: true
+}, blobProxy);
@@ -1,84 +1,49 @@
-import { app, HttpRequest, HttpResponseInit, InvocationContext } from '@azure/functions';
-import { globalRateLimiter } from '../services/rateLimiter';
+import { HttpRequest, HttpResponseInit } from '@azure/functions';
+import { globalRateLimiter, tokenBudgetLimiter } from '../services/rateLimiter';
 import { openaiSemaphore } from '../services/concurrency';
+import { deploymentRegistry } from '../services/deploymentRegistry';
+import { endpointPool } from '../services/endpointPool';
+import { circuitBreaker } from '../services/circuitBreaker';
+import { responseCache } from '../services/responseCache';
+import { quotaManager } from '../services/quota';
+import { usageLedger } from '../services/usageLedger';
+import { authenticator } from '../services/auth';
+import { proxyTokenService } from '../services/proxyTokens';
+import { corsPolicy } from '../services/cors';
+import { secretProviders } from '../services/secretProviders';
+import { jsonResponse, registerRoute, RequestContext } from '../services/middleware';
+import { configReport } from '../services/config';
 
-export async function diagnostics(request: HttpRequest, context: InvocationContext): Promise<HttpResponseInit> {
-    context.log('Diagnostics function called');
-
-    const corsHeaders = {
-        'Access-Control-Allow-Origin': '*',
-        'Access-Control-Allow-Methods': 'GET, OPTIONS',
-        'Access-Control-Allow-Headers': 'Content-Type, Authorization',
-        'Access-Control-Allow-Credentials': 'true',
-        'Content-Type': 'application/json'
+export async function diagnostics(request: HttpRequest, ctx: RequestContext): Promise<HttpResponseInit> {
+    const diagnosticInfo = {
+        timestamp: new Date().toISOString(),
+        environment: configReport(),
+        nodeVersion: process.version,
+        platform: process.platform,
+        rateLimiter: await globalRateLimiter.getStatus(),
+        tokenBudgets: await tokenBudgetLimiter.getStatus(),
+        quotas: quotaManager.getStatus(),
+        usage: usageLedger.getStatus(),
+        auth: authenticator.getStatus(),
+        proxyTokens: proxyTokenService.getStatus(),
+        cors: corsPolicy.getStatus(),
+        secrets: secretProviders.getStatus(),
+        concurrency: openaiSemaphore.getStatus(),
+        deployments: deploymentRegistry.getStatus(),
+        endpoints: endpointPool.getStatus(),
+        circuitBreaker: circuitBreaker.getStatus(),
+        responseCache: responseCache.getStatus()
     };
 
-    if (request.method === 'OPTIONS') {
-        return {
-            status: 200,
-            headers: corsHeaders
-        };
-    }
-
-    try {
-        const diagnosticInfo = {
-            timestamp: new Date().toISOString(),
-            environment: {
-                AZURE_OPENAI_ENDPOINT: process.env.AZURE_OPENAI_ENDPOINT ? 'SET' : 'NOT SET',
-                AZURE_OPENAI_API_KEY: process.env.AZURE_OPENAI_API_KEY ? 'SET' : 'NOT SET',
-                KEY_VAULT_URL: process.env.KEY_VAULT_URL ? 'SET' : 'NOT SET',
-                FUNCTIONS_WORKER_RUNTIME: process.env.FUNCTIONS_WORKER_RUNTIME || 'NOT SET',
-                // Rate limiting configuration
-                RATE_LIMIT_GLOBAL_RPS: process.env.RATE_LIMIT_GLOBAL_RPS || '8 (default)',
-                RATE_LIMIT_USER_RPS: process.env.RATE_LIMIT_USER_RPS || '2 (default)',
-                // Concurrency configuration
-                MAX_PARALLEL_AOAI: process.env.MAX_PARALLEL_AOAI || '8 (default)',
-                // Retry configuration
-                AOAI_MAX_RETRIES: process.env.AOAI_MAX_RETRIES || '6 (default)',
-                AOAI_BASE_DELAY_MS: process.env.AOAI_BASE_DELAY_MS || '500 (default)',
-                AOAI_MAX_DELAY_MS: process.env.AOAI_MAX_DELAY_MS || '15000 (default)',
-                // Validation configuration
-                VALIDATION_MAX_MESSAGES: process.env.VALIDATION_MAX_MESSAGES || '50 (default)',
-                VALIDATION_MAX_MESSAGE_LENGTH: process.env.VALIDATION_MAX_MESSAGE_LENGTH || '4000 (default)',
-                VALIDATION_MAX_TOKENS: process.env.VALIDATION_MAX_TOKENS || '4000 (default)',
-                // Blob Storage configuration
-                AZURE_STORAGE_CONNECTION_STRING: process.env.AZURE_STORAGE_CONNECTION_STRING ? 'SET' : 'NOT SET',
-                AZURE_STORAGE_ACCOUNT_NAME: process.env.AZURE_STORAGE_ACCOUNT_NAME ? 'SET' : 'NOT SET',
-                AZURE_STORAGE_ACCOUNT_KEY: process.env.AZURE_STORAGE_ACCOUNT_KEY ? 'SET' : 'NOT SET',
-                AZURE_BLOB_CONTAINER_NAME: process.env.AZURE_BLOB_CONTAINER_NAME || 'documents (default)'
-            },
-            nodeVersion: process.version,
-            platform: process.platform,
-            rateLimiter: globalRateLimiter.getStatus(),
-            concurrency: openaiSemaphore.getStatus()
-        };
-
-        context.log('Diagnostic info:', diagnosticInfo);
+    ctx.logger.info('Diagnostics collected', { requestId: ctx.requestId });
 
-        return {
-            status: 200,
-            headers: corsHeaders,
-            body: JSON.stringify({
-                success: true,
-                data: diagnosticInfo
-            })
-        };
-    } catch (error: any) {
-        context.log('Diagnostics error:', error);
-        return {
-            status: 500,
-            headers: corsHeaders,
-            body: JSON.stringify({
-                success: false,
-                error: error.message
-            })
-        };
-    }
+    return jsonResponse(200, {
+        success: true,
+        data: diagnosticInfo
+    });
 }
 
-app.http('diagnostics', {
-    methods: ['GET', 'OPTIONS'],
-    authLevel: 'anonymous',
-    route: 'diagnostics',
-    handler: diagnostics
-});
+registerRoute('diagnostics', {
+    methods: ['GET'],
+    route: 'diagnostics'
+}, diagnostics);
@@ -1,168 +1,94 @@
-import { app, HttpRequest, HttpResponseInit, InvocationContext } from '@azure/functions';
-import { SecretClient } from '@azure/keyvault-secrets';
-import { DefaultAzureCredential } from '@azure/identity';
+import { HttpRequest, HttpResponseInit } from '@azure/functions';
+import { HttpError, jsonResponse, registerRoute, RequestContext } from '../services/middleware';
+import { SECRET_REFS, secretProviders } from '../services/secretProviders';
+import { config } from '../services/config';
+import { proxyTokenService } from '../services/proxyTokens';
+import { deploymentRegistry } from '../services/deploymentRegistry';
 
 interface OpenAIConfig {
     endpoint: string;
     apiKey: string;
 }
 
-interface ApiResponse {
-    success: boolean;
-    data?: OpenAIConfig;
-    error?: string;
-}
-
-// CORS headers for React app
-const corsHeaders = {
-    'Access-Control-Allow-Origin': '*', // Will be configured based on environment
-    'Access-Control-Allow-Methods': 'GET, OPTIONS',
-    'Access-Control-Allow-Headers': 'Content-Type, Authorization',
-    'Access-Control-Allow-Credentials': 'true',
-    'Content-Type': 'application/json'
-};
-
-
-// Get secrets from Azure Key Vault
-async function getSecretsFromKeyVault(): Promise<OpenAIConfig> {
-    try {
-        const keyVaultUrl = process.env.KEY_VAULT_URL;
-        if (!keyVaultUrl) {
-            throw new Error('KEY_VAULT_URL environment variable is not set');
-        }
-
-        const credential = new DefaultAzureCredential();
-        const client = new SecretClient(keyVaultUrl, credential);
-        
-        const apiKeySecretName = process.env.AZURE_OPENAI_API_KEY_SECRET_NAME || 'azure-openai-api-key';
-        const endpoint = process.env.AZURE_OPENAI_ENDPOINT;
-        
-        if (!endpoint) {
-            throw new Error('AZURE_OPENAI_ENDPOINT environment variable is not set');
-        }
-
-        // Retrieve the API key from Key Vault
-        const secret = await client.getSecret(apiKeySecretName);
-        
-        if (!secret.value) {
-            throw new Error('Failed to retrieve API key from Key Vault');
+// Token mode: a short-lived proxy token, optionally limited to ?deployments=a,b, instead of the key
+async function issueProxyToken(request: HttpRequest, ctx: RequestContext): Promise<HttpResponseInit> {
+    const { requestId, logger } = ctx;
+    const requested = request.query.get('deployments');
+
+    let deployments: string[] | undefined;
+    if (requested) {
+        deployments = [];
+        for (const name of requested.split(',').map(item => item.trim()).filter(Boolean)) {
+            const chat = deploymentRegistry.resolve(name, 'chat');
+            const resolution = chat.ok ? chat : deploymentRegistry.resolve(name, 'embeddings');
+            if (!resolution.ok) {
+                throw new HttpError(400, chat.error!);
+            }
+            deployments.push(resolution.deployment!.name);
         }
+    }
 
-        return {
-            endpoint: endpoint,
-            apiKey: secret.value
-        };
+    let issued;
+    try {
+        issued = await proxyTokenService.issue(ctx.user!.userId, deployments);
     } catch (error: any) {
-        throw new Error(`Failed to retrieve secrets: ${error.message}`);
+        logger.error('Proxy token could not be signed', { requestId, error: error.message });
+        throw new HttpError(503, 'Proxy tokens are temporarily unavailable', { headers: { 'Retry-After': '5' } });
     }
-}
 
-// Fallback to environment variables (for development)
-function getSecretsFromEnvironment(): OpenAIConfig {
-    const endpoint = process.env.AZURE_OPENAI_ENDPOINT;
-    const apiKey = process.env.AZURE_OPENAI_API_KEY;
-    
-    if (!endpoint || !apiKey) {
-        throw new Error('Required environment variables AZURE_OPENAI_ENDPOINT and AZURE_OPENAI_API_KEY are not set');
-    }
-    
-    return { endpoint, apiKey };
+    logger.info('Proxy token issued', { requestId, userId: ctx.user!.userId, deployments, expiresAt: issued.expiresAt });
+    return jsonResponse(200, {
+        success: true,
+        data: issued
+    });
 }
 
-export async function getOpenAISecrets(request: HttpRequest, context: InvocationContext): Promise<HttpResponseInit> {
-    context.log('Azure OpenAI secrets request received');
+export async function getOpenAISecrets(request: HttpRequest, ctx: RequestContext): Promise<HttpResponseInit> {
+    const { requestId, logger } = ctx;
+    const user = ctx.user!;
 
-    // Handle CORS preflight
-    if (request.method === 'OPTIONS') {
-        return {
-            status: 200,
-            headers: corsHeaders
-        };
+    // Proxy-issued credentials exist so the Azure key never has to be shared, and must not mint fresh tokens
+    if (user.method === 'apikey' || user.method === 'token') {
+        logger.warn('Proxy credential refused access to the Azure OpenAI configuration', { requestId, userId: user.userId, method: user.method });
+        throw new HttpError(403, 'API keys and proxy tokens cannot retrieve the Azure OpenAI configuration');
     }
 
-    // Only allow GET requests
-    if (request.method !== 'GET') {
-        return {
-            status: 405,
-            headers: corsHeaders,
-            body: JSON.stringify({
-                success: false,
-                error: 'Method not allowed'
-            } as ApiResponse)
-        };
+    if (config.OPENAI_CONFIG_MODE === 'token') {
+        return issueProxyToken(request, ctx);
     }
+    logger.info('Azure OpenAI secrets requested', { requestId, userId: user.userId });
 
+    const endpoint = config.AZURE_OPENAI_ENDPOINT;
+    let apiKey: string;
     try {
-        let config: OpenAIConfig;
-        let keyVaultError: any = null;
-
-        // Try to get secrets from Key Vault first, fallback to environment variables
-        try {
-            config = await getSecretsFromKeyVault();
-            context.log('Successfully retrieved secrets from Key Vault');
-        } catch (kvError: any) {
-            keyVaultError = kvError;
-            context.log('Key Vault retrieval failed, falling back to environment variables:', kvError.message);
-            
-            try {
-                config = getSecretsFromEnvironment();
-                context.log('Successfully retrieved secrets from environment variables');
-            } catch (envError: any) {
-                context.log('Environment variable fallback also failed:', envError.message);
-                
-                // Provide specific error message based on the failure scenarios
-                let errorMessage = 'Failed to retrieve OpenAI configuration. ';
-                let troubleshootingTip = '';
-                
-                if (process.env.KEY_VAULT_URL) {
-                    // Key Vault was attempted but failed, and env vars are also missing
-                    errorMessage += 'Key Vault access failed and environment variables are not configured. ';
-                    troubleshootingTip = 'Check: 1) Function App managed identity has Key Vault access, or 2) Set AZURE_OPENAI_ENDPOINT and AZURE_OPENAI_API_KEY in Function App configuration.';
-                } else {
-                    // No Key Vault configured, only env vars were attempted
-                    errorMessage += 'Required environment variables are missing. ';
-                    troubleshootingTip = 'Set AZURE_OPENAI_ENDPOINT and AZURE_OPENAI_API_KEY in the Function App configuration, or configure Key Vault with KEY_VAULT_URL.';
-                }
-                
-                context.log(`Detailed error - Key Vault error: ${keyVaultError?.message || 'Not attempted'}, Environment error: ${envError.message}`);
-                
-                return {
-                    status: 500,
-                    headers: corsHeaders,
-                    body: JSON.stringify({
-                        success: false,
-                        error: errorMessage + troubleshootingTip
-                    } as ApiResponse)
-                };
-            }
+        if (!endpoint) {
+            throw new Error('AZURE_OPENAI_ENDPOINT environment variable is not set');
         }
-
-        return {
-            status: 200,
-            headers: corsHeaders,
-            body: JSON.stringify({
-                success: true,
-                data: config
-            } as ApiResponse)
-        };
-
+        apiKey = await secretProviders.getSecret(SECRET_REFS.openAIApiKey);
     } catch (error: any) {
-        context.log('Unexpected error retrieving OpenAI configuration:', error);
-        
-        return {
-            status: 500,
-            headers: corsHeaders,
-            body: JSON.stringify({
-                success: false,
-                error: 'Internal server error occurred while retrieving OpenAI configuration'
-            } as ApiResponse)
-        };
+        logger.error('Azure OpenAI configuration could not be retrieved', { requestId, error: error.message });
+        return jsonResponse(500, {
+            success: false,
+            error: `Failed to retrieve OpenAI configuration. ${error.message}. ` +
+                'Check: 1) AZURE_OPENAI_ENDPOINT is set, 2) the Function App managed identity has Key Vault access, or ' +
+                '3) AZURE_OPENAI_API_KEY is set and SECRET_PROVIDERS lists a provider holding it.'
+        });
     }
+
+    const secrets: OpenAIConfig = { endpoint, apiKey };
+    return jsonResponse(200, {
+        success: true,
+        data: secrets
+    });
 }
 
-app.http('getOpenAISecrets', {
-    methods: ['GET', 'OPTIONS'],
-    authLevel: 'anonymous',
+// The raw key or a proxy token is only handed to authenticated callers
+registerRoute('getOpenAISecrets', {
+    methods: ['GET'],
     route: 'openai/config',
-    handler: getOpenAISecrets
-});
+    cors: {
+        allowHeaders: ['Content-Type', 'Authorization', 'x-api-key'],
+        exposeHeaders: ['WWW-Authenticate', 'Retry-After']
+    },
+    auth: true
+}, getOpenAISecrets);
@@ -1,67 +1,34 @@
-import { app, HttpRequest, HttpResponseInit, InvocationContext } from '@azure/functions';
+import { HttpRequest, HttpResponseInit } from '@azure/functions';
+import { jsonResponse, registerRoute, RequestContext } from '../services/middleware';
+import { config } from '../services/config';
 
-export async function health(request: HttpRequest, context: InvocationContext): Promise<HttpResponseInit> {
-    context.log('Health check request received');
-
-    const corsHeaders = {
-        'Access-Control-Allow-Origin': '*',
-        'Access-Control-Allow-Methods': 'GET, OPTIONS',
-        'Access-Control-Allow-Headers': 'Content-Type, Authorization',
-        'Access-Control-Allow-Credentials': 'true',
-        'Content-Type': 'application/json'
+export async function health(request: HttpRequest, ctx: RequestContext): Promise<HttpResponseInit> {
+    const healthInfo = {
+        status: 'healthy',
+        timestamp: new Date().toISOString(),
+        version: '1.0.0',
+        uptime: process.uptime(),
+        environment: {
+            nodeVersion: process.version,
+            platform: process.platform,
+            runtime: config.FUNCTIONS_WORKER_RUNTIME || 'node'
+        },
+        services: {
+            blobStorage: config.AZURE_STORAGE_CONNECTION_STRING || config.AZURE_STORAGE_ACCOUNT_NAME ? 'configured' : 'not configured',
+            keyVault: config.KEY_VAULT_URL ? 'configured' : 'not configured',
+            openAI: config.AZURE_OPENAI_ENDPOINTS || (config.AZURE_OPENAI_ENDPOINT && config.AZURE_OPENAI_API_KEY) ? 'configured' : 'not configured'
+        }
     };
 
-    if (request.method === 'OPTIONS') {
-        return {
-            status: 200,
-            headers: corsHeaders
-        };
-    }
-
-    try {
-        const healthInfo = {
-            status: 'healthy',
-            timestamp: new Date().toISOString(),
-            version: '1.0.0',
-            uptime: process.uptime(),
-            environment: {
-                nodeVersion: process.version,
-                platform: process.platform,
-                runtime: process.env.FUNCTIONS_WORKER_RUNTIME || 'node'
-            },
-            services: {
-                blobStorage: process.env.AZURE_STORAGE_CONNECTION_STRING || process.env.AZURE_STORAGE_ACCOUNT_NAME ? 'configured' : 'not configured',
-                keyVault: process.env.KEY_VAULT_URL ? 'configured' : 'not configured',
-                openAI: process.env.AZURE_OPENAI_ENDPOINT && process.env.AZURE_OPENAI_API_KEY ? 'configured' : 'not configured'
-            }
-        };
-
-        context.log('Health check successful:', healthInfo);
+    ctx.logger.info('Health check successful', { requestId: ctx.requestId, services: healthInfo.services });
 
-        return {
-            status: 200,
-            headers: corsHeaders,
-            body: JSON.stringify({
-                success: true,
-                data: healthInfo
-            })
-        };
-    } catch (error: any) {
-        context.log('Health check error:', error);
-        return {
-            status: 500,
-            headers: corsHeaders,
-            body: JSON.stringify({
-                success: false,
-                error: error.message
-            })
-        };
-    }
+    return jsonResponse(200, {
+        success: true,
+        data: healthInfo
+    });
 }
 
-app.http('health', {
-    methods: ['GET', 'OPTIONS'],
-    authLevel: 'anonymous',
-    route: 'health',
-    handler: health
-});
\ No newline at end of file
+registerRoute('health', {
+    methods: ['GET'],
+    route: 'health'
+}, health);
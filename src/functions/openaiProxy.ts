@@ -1,170 +1,684 @@
 import { app, HttpRequest, HttpResponseInit, InvocationContext } from '@azure/functions';
-import { SecretClient } from '@azure/keyvault-secrets';
-import { DefaultAzureCredential } from '@azure/identity';
-import { OpenAIConfig, ApiResponse } from '../types';
-import { OpenAIService, AOAIError } from '../services/openAIService';
-import { globalRateLimiter } from '../services/rateLimiter';
-import { openaiSemaphore } from '../services/concurrency';
+import { OpenAIConfig, ApiResponse, ChatCompletionRequest, ChatContentPart } from '../types';
+import { OpenAIService, AOAIError, deadlineConfig } from '../services/openAIService';
+import { globalRateLimiter, tokenBudgetLimiter, TokenReservation } from '../services/rateLimiter';
+import { estimateChatPromptTokens, estimateChatTokens, estimateEmbeddingsTokens } from '../services/tokenEstimator';
+import { openaiSemaphore, Priority, SemaphoreRejectedError } from '../services/concurrency';
 import { RequestValidator } from '../services/validate';
+import { deploymentRegistry, DeploymentCapability, ResolvedDeployment } from '../services/deploymentRegistry';
+import { EndpointPool, EndpointDefinition } from '../services/endpointPool';
 import { Logger, createContentHash } from '../services/logger';
-import { v4 as uuidv4 } from 'uuid';
-
-// CORS headers for React app
-const corsHeaders = {
-    'Access-Control-Allow-Origin': '*', // Will be configured based on environment
-    'Access-Control-Allow-Methods': 'POST, OPTIONS',
-    'Access-Control-Allow-Headers': 'Content-Type, Authorization, x-user-id',
-    'Access-Control-Allow-Credentials': 'true',
+import { relayEventStream } from '../services/streaming';
+import { idempotencyManager, IdempotencyClaim, IdempotencyManager } from '../services/idempotency';
+import { responseCache, CacheOutcome } from '../services/responseCache';
+import { quotaManager } from '../services/quota';
+import { usageLedger, UsageEvent } from '../services/usageLedger';
+import { hasScope, canUseDeployment, AuthenticatedUser } from '../services/auth';
+import { BlobStorageService, getBlobStorageConfig } from '../services/blobStorageService';
+import { registerRoute, RequestContext, RouteOptions } from '../services/middleware';
+import { SECRET_REFS, SecretRef, secretProviders } from '../services/secretProviders';
+import { promptTemplateStore, renderTemplate, validateTemplateReference, TemplateError, TemplateMessage, TemplateReference } from '../services/promptTemplates';
+import { config } from '../services/config';
+
+// Required so a streamed completion can be returned as the response body
+app.setup({ enableHttpStream: true });
+
+const jsonHeaders = {
     'Content-Type': 'application/json'
 };
 
-// Simple in-memory idempotency cache
-const idempotencyCache = new Map<string, { response: any; timestamp: number }>();
+const corsOptions: RouteOptions['cors'] = {
+    allowHeaders: ['Content-Type', 'Authorization', 'x-api-key', 'x-user-id', 'x-cache-bypass', 'idempotency-key', 'x-priority', 'x-request-timeout-ms'],
+    exposeHeaders: ['X-Cache', 'Idempotent-Replayed', 'X-Quota-Remaining-Tokens', 'WWW-Authenticate', 'Retry-After']
+};
+
+const streamHeaders = {
+    ...jsonHeaders,
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    'Connection': 'keep-alive'
+};
 
-// Get OpenAI configuration from Azure Key Vault or environment
-async function getOpenAIConfig(context: InvocationContext): Promise<OpenAIConfig> {
-    try {
-        // Try Key Vault first
-        const keyVaultUrl = process.env.KEY_VAULT_URL;
-        if (keyVaultUrl) {
-            const credential = new DefaultAzureCredential();
-            const client = new SecretClient(keyVaultUrl, credential);
-            
-            const apiKeySecretName = process.env.AZURE_OPENAI_API_KEY_SECRET_NAME || 'azure-openai-api-key';
-            const endpoint = process.env.AZURE_OPENAI_ENDPOINT;
-            
-            if (!endpoint) {
-                throw new Error('AZURE_OPENAI_ENDPOINT environment variable is not set');
+const MAX_IDEMPOTENCY_KEY_LENGTH = 255;
+
+// Get the single configured endpoint; its key comes from the secret providers
+async function getOpenAIConfig(): Promise<OpenAIConfig> {
+    const endpoint = config.AZURE_OPENAI_ENDPOINT;
+    if (!endpoint) {
+        throw new Error('AZURE_OPENAI_ENDPOINT environment variable is not set');
+    }
+
+    return {
+        endpoint,
+        apiKey: await secretProviders.getSecret(SECRET_REFS.openAIApiKey)
+    };
+}
+
+// Where each pooled endpoint's key is found
+function endpointKeyRef(definition: EndpointDefinition): SecretRef {
+    return { name: definition.apiKeySecretName, env: definition.apiKeyEnv };
+}
+
+// Upstream rejected a key: drop the cached copies so a rotated key is fetched on the next request
+function invalidateOpenAIKeys(requestId: string, logger: Logger): void {
+    const refs = config.AZURE_OPENAI_ENDPOINTS
+        ? EndpointPool.parseDefinitions(config.AZURE_OPENAI_ENDPOINTS).map(endpointKeyRef)
+        : [SECRET_REFS.openAIApiKey];
+
+    logger.warn('Upstream rejected the API key, invalidating cached keys', { requestId, secretCount: refs.length });
+    for (const ref of refs) {
+        secretProviders.invalidate(ref);
+    }
+}
+
+function hasImageBlobs(chatRequest: ChatCompletionRequest): boolean {
+    return chatRequest.messages.some(message =>
+        Array.isArray(message.content) && message.content.some(part => part.type === 'image_blob'));
+}
+
+// Blob name prefix the caller's image_blob parts must start with
+function imageBlobPrefix(userId: string): string {
+    return config.IMAGE_BLOB_PREFIX.replace(/\{userId\}/g, encodeURIComponent(userId));
+}
+
+// Containers holding the proxy's own records, which must never be read as images
+function isInternalContainer(containerName: string): boolean {
+    return [config.STATE_STORE_CONTAINER, config.PROMPT_TEMPLATES_CONTAINER, config.API_KEYS_CONTAINER].includes(containerName);
+}
+
+/**
+ * Check that every image_blob part names a blob the caller may read: under their
+ * image prefix, without relative segments, in a container the proxy does not use
+ * for its own records. Returns an error message, or undefined when all are allowed.
+ */
+function checkImageBlobNames(chatRequest: ChatCompletionRequest, userId: string): string | undefined {
+    if (isInternalContainer(config.AZURE_BLOB_CONTAINER_NAME)) {
+        return 'image_blob parts are not available';
+    }
+
+    const prefix = imageBlobPrefix(userId);
+    for (const message of chatRequest.messages) {
+        if (!Array.isArray(message.content)) {
+            continue;
+        }
+        for (const part of message.content) {
+            if (part.type !== 'image_blob') {
+                continue;
+            }
+            const blobName = part.image_blob.blobName;
+            if (!blobName.startsWith(prefix) || blobName.split(/[/\\]/).some(segment => segment === '..' || segment === '.')) {
+                return `image_blob names must start with ${prefix}`;
             }
+        }
+    }
+    return undefined;
+}
 
-            const secret = await client.getSecret(apiKeySecretName);
-            
-            if (!secret.value) {
-                throw new Error('Failed to retrieve API key from Key Vault');
+// Replace image_blob parts with data URLs so the upstream only sees standard image_url parts
+async function resolveImageBlobs(chatRequest: ChatCompletionRequest, context: InvocationContext): Promise<ChatCompletionRequest> {
+    if (!hasImageBlobs(chatRequest)) {
+        return chatRequest;
+    }
+
+    const blobService = new BlobStorageService(await getBlobStorageConfig(context));
+
+    const messages = await Promise.all(chatRequest.messages.map(async message => {
+        if (!Array.isArray(message.content)) {
+            return message;
+        }
+
+        const content = await Promise.all(message.content.map(async (part): Promise<ChatContentPart> => {
+            if (part.type !== 'image_blob') {
+                return part;
             }
 
+            const url = await blobService.downloadImageAsDataUrl(part.image_blob.blobName);
             return {
-                endpoint: endpoint,
-                apiKey: secret.value
+                type: 'image_url',
+                image_url: { url, ...(part.image_blob.detail && { detail: part.image_blob.detail }) }
             };
+        }));
+
+        return { ...message, content };
+    }));
+
+    return { ...chatRequest, messages };
+}
+
+// Get the endpoint pool from AZURE_OPENAI_ENDPOINTS, or the single configured endpoint
+async function getOpenAIEndpoints(context: InvocationContext): Promise<OpenAIConfig[]> {
+    if (!config.AZURE_OPENAI_ENDPOINTS) {
+        return [await getOpenAIConfig()];
+    }
+
+    const definitions = EndpointPool.parseDefinitions(config.AZURE_OPENAI_ENDPOINTS);
+
+    const endpoints: OpenAIConfig[] = [];
+    for (const definition of definitions) {
+        const apiKey = await secretProviders.findSecret(endpointKeyRef(definition));
+        if (!apiKey) {
+            context.log(`No API key available for endpoint ${definition.name}, leaving it out of the pool`);
+            continue;
         }
+
+        endpoints.push({
+            endpoint: definition.endpoint,
+            apiKey,
+            name: definition.name,
+            weight: definition.weight
+        });
+    }
+
+    if (endpoints.length === 0) {
+        throw new Error('No Azure OpenAI endpoint in AZURE_OPENAI_ENDPOINTS has an API key available');
+    }
+
+    return endpoints;
+}
+
+// Apply a deployment's api-version override to every pooled endpoint
+function withApiVersion(endpoints: OpenAIConfig[], deployment: ResolvedDeployment): OpenAIConfig[] {
+    return deployment.apiVersion
+        ? endpoints.map(endpoint => ({ ...endpoint, apiVersion: deployment.apiVersion }))
+        : endpoints;
+}
+
+// Clients skip the response cache with `x-cache-bypass: true` or `Cache-Control: no-cache`
+function wantsCacheBypass(request: HttpRequest): boolean {
+    const bypass = request.headers.get('x-cache-bypass');
+    const cacheControl = request.headers.get('cache-control') || '';
+    return bypass === 'true' || bypass === '1' || /no-cache|no-store/i.test(cacheControl);
+}
+
+// Claim an idempotency key for this user and request body; duplicates wait for the first request
+async function claimIdempotencyKey(
+    key: string,
+    userId: string,
+    requestBody: any,
+    requestId: string,
+    logger: Logger
+): Promise<{ claim: IdempotencyClaim } | { response: HttpResponseInit }> {
+    const errorResponse = (status: number, error: string, headers: Record<string, string> = {}) => ({
+        response: {
+            status,
+            headers: { ...jsonHeaders, ...headers },
+            body: JSON.stringify({ success: false, error } as ApiResponse)
+        }
+    });
+
+    if (key.length > MAX_IDEMPOTENCY_KEY_LENGTH) {
+        return errorResponse(400, `Idempotency-Key must be at most ${MAX_IDEMPOTENCY_KEY_LENGTH} characters`);
+    }
+
+    const claim = await idempotencyManager.claim(userId, key, IdempotencyManager.hashBody(requestBody), requestId);
+
+    switch (claim.outcome) {
+        case 'replay':
+            logger.info('Returning cached response', { requestId, userId });
+            return {
+                response: {
+                    status: 200,
+                    headers: { ...jsonHeaders, 'Idempotent-Replayed': 'true' },
+                    body: JSON.stringify(claim.response)
+                }
+            };
+        case 'conflict':
+            logger.warn('Idempotency key reused with a different request body', { requestId, userId });
+            return errorResponse(409, 'Idempotency-Key was already used with a different request body');
+        case 'timeout':
+            logger.warn('Timed out waiting for in-flight idempotent request', { requestId, userId });
+            return errorResponse(409, 'A request with this Idempotency-Key is still in progress', { 'Retry-After': '5' });
+        default:
+            return { claim };
+    }
+}
+
+// Header telling the client how many tokens are left in its tightest quota period
+function quotaHeaders(remaining: number | undefined): Record<string, string> {
+    return remaining === undefined ? {} : { 'X-Quota-Remaining-Tokens': String(remaining) };
+}
+
+// Enforce the user's daily and monthly token quotas, returning a 429 response when exhausted
+async function checkQuota(
+    userId: string,
+    requestId: string,
+    logger: Logger
+): Promise<{ headers: Record<string, string>; errorResponse?: HttpResponseInit }> {
+    const quota = await quotaManager.check(userId);
+    if (quota.ok) {
+        return { headers: quotaHeaders(quota.remaining) };
+    }
+
+    logger.warn('Token quota exhausted', { requestId, userId, period: quota.period, rateLimited: true });
+    return {
+        headers: quotaHeaders(0),
+        errorResponse: {
+            status: 429,
+            headers: { ...jsonHeaders, ...quotaHeaders(0), 'Retry-After': String(quota.retryAfterSeconds) },
+            body: JSON.stringify({
+                success: false,
+                error: `${quota.period === 'daily' ? 'Daily' : 'Monthly'} token quota exhausted. Try again after it resets.`,
+                errorType: 'quota_exceeded'
+            } as ApiResponse)
+        }
+    };
+}
+
+// Record actual usage against the user's quotas; a failure is logged rather than failing the request
+async function recordQuotaUsage(
+    userId: string,
+    totalTokens: number | undefined,
+    requestId: string,
+    logger: Logger
+): Promise<Record<string, string>> {
+    try {
+        return quotaHeaders(await quotaManager.record(userId, totalTokens || 0));
     } catch (error: any) {
-        context.log('Key Vault retrieval failed, falling back to environment variables:', error.message);
+        logger.error('Failed to record quota usage', { requestId, userId, totalTokens, error: error.message });
+        return {};
     }
+}
 
-    // Fallback to environment variables
-    const endpoint = process.env.AZURE_OPENAI_ENDPOINT;
-    const apiKey = process.env.AZURE_OPENAI_API_KEY;
-    
-    if (!endpoint || !apiKey) {
-        throw new Error('Required environment variables AZURE_OPENAI_ENDPOINT and AZURE_OPENAI_API_KEY are not set');
+// Add an upstream call to the usage ledger; a failure is logged rather than failing the request
+async function recordUsage(event: UsageEvent, requestId: string, logger: Logger): Promise<void> {
+    try {
+        await usageLedger.record(event);
+    } catch (error: any) {
+        logger.error('Failed to record usage', { requestId, userId: event.userId, error: error.message });
     }
-    
-    return { endpoint, apiKey };
 }
 
-export async function openaiProxy(request: HttpRequest, context: InvocationContext): Promise<HttpResponseInit> {
-    const requestId = uuidv4();
-    const logger = new Logger(context);
-    const startTime = Date.now();
+// Reserve estimated tokens against the per-minute budgets, returning a 429 response when exhausted
+async function reserveTokens(
+    user: AuthenticatedUser,
+    estimatedTokens: number,
+    requestId: string,
+    logger: Logger
+): Promise<{ reservation?: TokenReservation; errorResponse?: HttpResponseInit }> {
+    const userId = user.userId;
+    const reservation = await tokenBudgetLimiter.reserve(userId, estimatedTokens, user.apiKey?.rateLimit?.tpm);
+    if (reservation.ok) {
+        return { reservation };
+    }
 
-    logger.info('OpenAI proxy request received', { requestId });
+    logger.warn('Token budget exceeded', { requestId, userId, scope: reservation.scope, estimatedTokens, rateLimited: true });
+    return {
+        errorResponse: {
+            status: 429,
+            headers: { ...jsonHeaders, 'Retry-After': String(reservation.retryAfterSeconds) },
+            body: JSON.stringify({
+                success: false,
+                error: reservation.scope === 'global'
+                    ? 'Global token budget exceeded. Try again later.'
+                    : 'User token budget exceeded. Try again later.'
+            } as ApiResponse)
+        }
+    };
+}
 
-    // Handle CORS preflight
-    if (request.method === 'OPTIONS') {
+// 403 for an authenticated caller that is not allowed to do something
+function forbidden(error: string, userId: string, requestId: string, logger: Logger): HttpResponseInit {
+    logger.warn('Request forbidden', { requestId, userId, error });
+    return {
+        status: 403,
+        headers: jsonHeaders,
+        body: JSON.stringify({
+            success: false,
+            error
+        } as ApiResponse)
+    };
+}
+
+// Resolve the requested deployment against the registry, returning a 400 response when it is not allowed
+function resolveDeployment(
+    requested: any,
+    capability: DeploymentCapability,
+    requestId: string,
+    user: AuthenticatedUser,
+    logger: Logger
+): { deployment?: ResolvedDeployment; errorResponse?: HttpResponseInit } {
+    const userId = user.userId;
+
+    if (!requested) {
+        logger.warn('Missing deployment name', { requestId, userId });
         return {
-            status: 200,
-            headers: corsHeaders
+            errorResponse: {
+                status: 400,
+                headers: jsonHeaders,
+                body: JSON.stringify({
+                    success: false,
+                    error: 'Deployment name is required'
+                } as ApiResponse)
+            }
         };
     }
 
-    // Only allow POST requests
-    if (request.method !== 'POST') {
+    const resolution = deploymentRegistry.resolve(requested, capability);
+    if (!resolution.ok) {
+        logger.warn('Deployment rejected', { requestId, userId, error: resolution.error });
         return {
-            status: 405,
-            headers: corsHeaders,
+            errorResponse: {
+                status: 400,
+                headers: jsonHeaders,
+                body: JSON.stringify({
+                    success: false,
+                    error: resolution.error
+                } as ApiResponse)
+            }
+        };
+    }
+
+    const deployment = resolution.deployment!;
+    if (!canUseDeployment(user, deployment.name, deployment.requested)) {
+        return { errorResponse: forbidden(`API key is not allowed to use deployment ${deployment.requested}`, userId, requestId, logger) };
+    }
+
+    return { deployment };
+}
+
+// Apply the global and per-user request rate limits, returning a 429 response when exceeded
+async function checkRateLimits(user: AuthenticatedUser, requestId: string, logger: Logger): Promise<HttpResponseInit | null> {
+    const userId = user.userId;
+
+    if (!await globalRateLimiter.allow('global', 1)) {
+        logger.warn('Global rate limit exceeded', { requestId, userId });
+        return {
+            status: 429,
+            headers: { ...jsonHeaders, 'Retry-After': '2' },
             body: JSON.stringify({
                 success: false,
-                error: 'Method not allowed'
+                error: 'Global rate limit exceeded. Try again later.'
             } as ApiResponse)
         };
     }
 
-    try {
-        // Extract user ID for rate limiting
-        const userId = RequestValidator.extractUserId(request.headers);
+    // API keys may carry their own per-second limit in place of the per-user one
+    if (!await globalRateLimiter.allow(`user:${userId}`, 1, user.apiKey?.rateLimit?.rps)) {
+        logger.warn('User rate limit exceeded', { requestId, userId });
+        return {
+            status: 429,
+            headers: { ...jsonHeaders, 'Retry-After': '2' },
+            body: JSON.stringify({
+                success: false,
+                error: 'User rate limit exceeded. Try again later.'
+            } as ApiResponse)
+        };
+    }
 
-        // Rate limiting checks
-        if (!globalRateLimiter.allow('global', 1)) {
-            logger.warn('Global rate limit exceeded', { requestId, userId });
-            return {
-                status: 429,
-                headers: { ...corsHeaders, 'Retry-After': '2' },
+    return null;
+}
+
+// Queue priority: `x-priority: batch` always lowers it; interactive is the default for users
+// and needs the interactive scope for API keys, which otherwise queue as batch
+function resolvePriority(request: HttpRequest, user: AuthenticatedUser): Priority {
+    const requested = request.headers.get('x-priority');
+    if (requested === 'batch' || !hasScope(user, 'interactive')) {
+        return 'batch';
+    }
+    return 'interactive';
+}
+
+// End-to-end deadline measured from when the request arrived; `x-request-timeout-ms` picks another budget within limits
+function resolveDeadline(
+    request: HttpRequest,
+    startTime: number,
+    requestId: string,
+    logger: Logger
+): { deadline?: number; errorResponse?: HttpResponseInit } {
+    const requested = request.headers.get('x-request-timeout-ms');
+    if (!requested) {
+        return { deadline: startTime + deadlineConfig.requestTimeoutMs };
+    }
+
+    const timeoutMs = Number(requested);
+    const { minRequestTimeoutMs, maxRequestTimeoutMs } = deadlineConfig;
+    if (!Number.isInteger(timeoutMs) || timeoutMs < minRequestTimeoutMs || timeoutMs > maxRequestTimeoutMs) {
+        logger.warn('Invalid request timeout', { requestId, requested });
+        return {
+            errorResponse: {
+                status: 400,
+                headers: jsonHeaders,
                 body: JSON.stringify({
                     success: false,
-                    error: 'Global rate limit exceeded. Try again later.'
+                    error: `x-request-timeout-ms must be an integer between ${minRequestTimeoutMs} and ${maxRequestTimeoutMs}`
                 } as ApiResponse)
-            };
+            }
+        };
+    }
+
+    return { deadline: startTime + timeoutMs };
+}
+
+// Map an error from the upstream call to the proxy's response
+function mapUpstreamError(error: any, requestId: string, logger: Logger): HttpResponseInit {
+    // Too much queued work on this instance: shed the request rather than let it wait for the host timeout
+    if (error instanceof SemaphoreRejectedError) {
+        logger.warn('Request shed by concurrency limit', { requestId, reason: error.reason, retryAfter: error.retryAfterSeconds });
+        return {
+            status: 503,
+            headers: {
+                ...jsonHeaders,
+                'Retry-After': String(error.retryAfterSeconds)
+            },
+            body: JSON.stringify({
+                success: false,
+                error: 'Too many requests are waiting for the upstream service. Please try again later.',
+                errorType: error.reason === 'queue_full' ? 'queue_full' : 'queue_timeout'
+            } as ApiResponse)
+        };
+    }
+
+    // Handle different types of errors
+    const aoaiError = error as AOAIError;
+
+    // The request's deadline budget ran out before the upstream answered
+    if (aoaiError.deadlineExceeded) {
+        return {
+            status: 504,
+            headers: jsonHeaders,
+            body: JSON.stringify({
+                success: false,
+                error: 'Upstream service did not respond within the request deadline.',
+                errorType: 'deadline_exceeded'
+            } as ApiResponse)
+        };
+    }
+
+    // Circuit breaker is open: fail fast and tell the client when to come back
+    if (aoaiError.circuitOpen) {
+        return {
+            status: 503,
+            headers: {
+                ...jsonHeaders,
+                'Retry-After': String(aoaiError.retryAfter || 30)
+            },
+            body: JSON.stringify({
+                success: false,
+                error: 'Upstream service is currently unavailable. Please try again later.',
+                errorType: 'circuit_open'
+            } as ApiResponse)
+        };
+    }
+    
+    // Rate limiting or server errors from Azure OpenAI
+    if (aoaiError.status === 429 || (aoaiError.status && aoaiError.status >= 500)) {
+        return {
+            status: 429,
+            headers: { 
+                ...jsonHeaders,
+                'Retry-After': '5' 
+            },
+            body: JSON.stringify({
+                success: false,
+                error: 'Upstream service is temporarily unavailable. Please try again later.'
+            } as ApiResponse)
+        };
+    }
+    
+    // Client errors from Azure OpenAI (400, 401, 403, 404)
+    if (aoaiError.status && aoaiError.status >= 400 && aoaiError.status < 500) {
+        if (aoaiError.status === 401) {
+            invalidateOpenAIKeys(requestId, logger);
         }
 
-        if (!globalRateLimiter.allow(`user:${userId}`, 1)) {
-            logger.warn('User rate limit exceeded', { requestId, userId });
+        // Check if this is a content filtering error (400 with specific message pattern)
+        if (aoaiError.status === 400 && aoaiError.message?.includes('content management policy')) {
+            logger.warn('Content filtering detected', { requestId, error: aoaiError.message });
             return {
-                status: 429,
-                headers: { ...corsHeaders, 'Retry-After': '2' },
+                status: 400,
+                headers: jsonHeaders,
                 body: JSON.stringify({
                     success: false,
-                    error: 'User rate limit exceeded. Try again later.'
+                    error: 'Content filtered by Azure OpenAI policy',
+                    errorType: 'content_filter',
+                    detail: 'The request was filtered due to content policy. Consider skipping this transaction or marking it as uncategorized.'
                 } as ApiResponse)
             };
         }
-
-        // Parse and validate request body
-        const requestBody = await request.json() as any;
         
-        if (!requestBody) {
-            logger.warn('Empty request body', { requestId, userId });
-            return {
-                status: 400,
-                headers: corsHeaders,
+        // Other client errors (401, 403, 404, or 400 without content filtering)
+        return {
+            status: 502,
+            headers: jsonHeaders,
+            body: JSON.stringify({
+                success: false,
+                error: 'Invalid request to upstream service',
+                detail: aoaiError.message?.slice(0, 300)
+            } as ApiResponse)
+        };
+    }
+    
+    // Generic server error
+    return {
+        status: 500,
+        headers: jsonHeaders,
+        body: JSON.stringify({
+            success: false,
+            error: 'Internal server error'
+        } as ApiResponse)
+    };
+}
+
+// Render a prompt template ahead of the client's own messages, returning an error response when it cannot be used
+async function applyTemplate(
+    reference: any,
+    clientMessages: any,
+    requestId: string,
+    userId: string,
+    logger: Logger
+): Promise<{ messages?: any[]; templateMessages?: number; errorResponse?: HttpResponseInit }> {
+    const templateError = (status: number, error: string, headers: Record<string, string> = {}) => {
+        logger.warn('Prompt template rejected', { requestId, userId, templateId: reference?.id, error });
+        return {
+            errorResponse: {
+                status,
+                headers: { ...jsonHeaders, ...headers },
                 body: JSON.stringify({
                     success: false,
-                    error: 'Request body is required'
+                    error
                 } as ApiResponse)
-            };
+            }
+        };
+    };
+
+    const invalid = validateTemplateReference(reference);
+    if (invalid) {
+        return templateError(400, invalid);
+    }
+    const { id, version, variables } = reference as TemplateReference;
+
+    const messages = clientMessages ?? [];
+    if (!Array.isArray(messages)) {
+        return templateError(400, 'Messages must be an array');
+    }
+    // The template owns the system prompt; clients only add to the conversation
+    if (messages.some(message => message?.role === 'system')) {
+        return templateError(400, 'System messages cannot be sent with a template');
+    }
+
+    let rendered: TemplateMessage[];
+    try {
+        const template = await promptTemplateStore.get(id, version);
+        if (!template) {
+            return templateError(404, version ? `Template ${id} version ${version} not found` : `Template ${id} not found`);
+        }
+        rendered = renderTemplate(template, variables);
+        logger.info('Prompt template rendered', { requestId, userId, templateId: id, templateVersion: template.version });
+    } catch (error: any) {
+        if (error instanceof TemplateError) {
+            return templateError(400, error.message);
+        }
+        logger.error('Prompt template could not be loaded', { requestId, userId, templateId: id, error: error.message });
+        return templateError(503, 'Prompt templates are temporarily unavailable', { 'Retry-After': '5' });
+    }
+
+    return { messages: [...rendered, ...messages], templateMessages: rendered.length };
+}
+
+export async function openaiProxy(request: HttpRequest, ctx: RequestContext): Promise<HttpResponseInit> {
+    const { requestId, logger, startTime } = ctx;
+    const context = ctx.invocation;
+
+    let tokenReservation: TokenReservation | undefined;
+    let idempotency: IdempotencyClaim | undefined;
+    let upstreamCall: { userId: string; deployment: string } | undefined;  // Set once the request is sent upstream
+
+    try {
+        // The verified user ID drives rate limiting, quotas and logging
+        const user = ctx.user!;
+        const userId = user.userId;
+
+        const { deadline, errorResponse: deadlineError } = resolveDeadline(request, startTime, requestId, logger);
+        if (deadlineError) {
+            return deadlineError;
+        }
+
+        // Rate limiting checks
+        const rateLimited = await checkRateLimits(user, requestId, logger);
+        if (rateLimited) {
+            return rateLimited;
         }
 
-        // Check for idempotency key
-        const idempotencyKey = request.headers.get('idempotency-key');
+        // Daily and monthly token quotas
+        const quota = await checkQuota(userId, requestId, logger);
+        if (quota.errorResponse) {
+            return quota.errorResponse;
+        }
+
+        const requestBody = ctx.body;
+
+        // Check for idempotency key (streamed responses are never cached)
+        const idempotencyKey = requestBody.stream === true ? null : request.headers.get('idempotency-key');
         if (idempotencyKey) {
-            const cached = idempotencyCache.get(idempotencyKey);
-            if (cached && (Date.now() - cached.timestamp) < 300000) { // 5 minutes
-                logger.info('Returning cached response', { requestId, userId, idempotencyKey });
-                return {
-                    status: 200,
-                    headers: corsHeaders,
-                    body: JSON.stringify(cached.response)
-                };
+            const claimed = await claimIdempotencyKey(idempotencyKey, userId, requestBody, requestId, logger);
+            if ('response' in claimed) {
+                return claimed.response;
             }
+            idempotency = claimed.claim;
         }
 
-        // Extract deployment name from request (required for Azure OpenAI)
-        const deployment = requestBody.deployment;
-        if (!deployment) {
-            logger.warn('Missing deployment name', { requestId, userId });
-            return {
-                status: 400,
-                headers: corsHeaders,
-                body: JSON.stringify({
-                    success: false,
-                    error: 'Deployment name is required'
-                } as ApiResponse)
-            };
+        // Resolve deployment name or alias (required for Azure OpenAI)
+        const { deployment: resolved, errorResponse: deploymentError } =
+            resolveDeployment(requestBody.deployment, 'chat', requestId, user, logger);
+        if (deploymentError) {
+            return deploymentError;
+        }
+        const deployment = resolved!.name;
+
+        // Render the prompt template, if any, ahead of the client's messages
+        const { deployment: _, template, ...openaiRequestBody } = requestBody;
+        let templateMessages = 0;
+        if (template !== undefined) {
+            const applied = await applyTemplate(template, openaiRequestBody.messages, requestId, userId, logger);
+            if (applied.errorResponse) {
+                return applied.errorResponse;
+            }
+            openaiRequestBody.messages = applied.messages;
+            templateMessages = applied.templateMessages!;
         }
 
         // Validate request
-        const { deployment: _, ...openaiRequestBody } = requestBody;
-        const validation = RequestValidator.validate(openaiRequestBody);
+        const validation = RequestValidator.validate(openaiRequestBody, templateMessages);
         
         if (!validation.ok) {
             logger.warn('Request validation failed', { 
@@ -175,7 +689,7 @@ export async function openaiProxy(request: HttpRequest, context: InvocationConte
             });
             return {
                 status: 400,
-                headers: corsHeaders,
+                headers: jsonHeaders,
                 body: JSON.stringify({
                     success: false,
                     error: validation.error
@@ -183,45 +697,224 @@ export async function openaiProxy(request: HttpRequest, context: InvocationConte
             };
         }
 
-        const chatRequest = validation.sanitizedRequest!;
+        let chatRequest = validation.sanitizedRequest!;
 
-        // Get OpenAI configuration
-        const config = await getOpenAIConfig(context);
+        // Images referenced by blob name are read from storage on the caller's behalf
+        if (hasImageBlobs(chatRequest) && !hasScope(user, 'blob:read')) {
+            return forbidden('API key lacks the blob:read scope needed for image_blob parts', userId, requestId, logger);
+        }
+
+        const imageBlobError = hasImageBlobs(chatRequest) ? checkImageBlobNames(chatRequest, userId) : undefined;
+        if (imageBlobError) {
+            logger.warn('Image blob name rejected', { requestId, userId, error: imageBlobError });
+            return {
+                status: 400,
+                headers: jsonHeaders,
+                body: JSON.stringify({
+                    success: false,
+                    error: imageBlobError
+                } as ApiResponse)
+            };
+        }
+
+        // Resolve images referenced by blob name, then validate again so the
+        // downloaded data URLs are subject to the same size limits
+        try {
+            chatRequest = await resolveImageBlobs(chatRequest, context);
+        } catch (blobError: any) {
+            // The storage error stays in the log: it would tell the caller whether a blob exists
+            logger.warn('Image blob resolution failed', { requestId, userId, error: blobError.message });
+            return {
+                status: 400,
+                headers: jsonHeaders,
+                body: JSON.stringify({
+                    success: false,
+                    error: 'Referenced image blob could not be loaded'
+                } as ApiResponse)
+            };
+        }
+
+        if (chatRequest !== validation.sanitizedRequest) {
+            const resolvedValidation = RequestValidator.validate(chatRequest, templateMessages);
+            if (!resolvedValidation.ok) {
+                logger.warn('Resolved image validation failed', { requestId, userId, error: resolvedValidation.error });
+                return {
+                    status: 400,
+                    headers: jsonHeaders,
+                    body: JSON.stringify({
+                        success: false,
+                        error: resolvedValidation.error
+                    } as ApiResponse)
+                };
+            }
+            chatRequest = resolvedValidation.sanitizedRequest!;
+        }
+
+        // Apply the deployment's max_tokens ceiling
+        if (resolved!.maxTokens) {
+            if (chatRequest.max_tokens !== undefined && chatRequest.max_tokens > resolved!.maxTokens) {
+                logger.warn('max_tokens exceeds deployment limit', { requestId, userId, deployment });
+                return {
+                    status: 400,
+                    headers: jsonHeaders,
+                    body: JSON.stringify({
+                        success: false,
+                        error: `max_tokens must be at most ${resolved!.maxTokens} for deployment ${resolved!.requested}`
+                    } as ApiResponse)
+                };
+            }
+            chatRequest = { ...chatRequest, max_tokens: chatRequest.max_tokens ?? resolved!.maxTokens };
+        }
+
+        // Serve deterministic requests from the response cache; a bypass still refreshes the entry
+        let cacheKey: string | undefined;
+        let cacheOutcome: CacheOutcome | undefined;
+        if (responseCache.isCacheable(chatRequest)) {
+            cacheKey = responseCache.keyFor(deployment, resolved!.apiVersion, chatRequest);
+
+            if (wantsCacheBypass(request)) {
+                responseCache.recordBypass();
+                cacheOutcome = 'BYPASS';
+            } else {
+                const cachedResponse = responseCache.get(cacheKey);
+                if (cachedResponse) {
+                    logger.info('OpenAI proxy cache hit', {
+                        requestId,
+                        userId,
+                        elapsedMs: Date.now() - startTime,
+                        cacheKey: cacheKey.substring(0, 16)
+                    });
+                    return {
+                        status: 200,
+                        headers: { ...jsonHeaders, ...quota.headers, 'X-Cache': 'HIT' },
+                        body: JSON.stringify({
+                            success: true,
+                            data: cachedResponse
+                        } as ApiResponse)
+                    };
+                }
+                cacheOutcome = 'MISS';
+            }
+        }
+
+        // Get OpenAI endpoint configuration
+        const endpoints = withApiVersion(await getOpenAIEndpoints(context), resolved!);
         
+        // Fail fast without taking a concurrency permit while the upstream circuit is open
+        const openaiService = new OpenAIService(endpoints, logger);
+        openaiService.assertAvailable(deployment);
+
+        // Reserve the estimated token cost; reconciled with actual usage once known
+        const estimatedTokens = estimateChatTokens(chatRequest);
+        const budget = await reserveTokens(user, estimatedTokens, requestId, logger);
+        if (budget.errorResponse) {
+            return budget.errorResponse;
+        }
+        tokenReservation = budget.reservation;
+
         // Acquire semaphore for concurrency control
         const semaphoreStart = Date.now();
-        const release = await openaiSemaphore.acquire();
+        const priority = resolvePriority(request, user);
+        // Time spent queueing comes out of the same deadline budget
+        const release = await openaiSemaphore.acquire({ userId, priority, timeoutMs: Math.min(openaiSemaphore.acquireTimeoutMs, deadline! - Date.now()) });
         const semaphoreWaitMs = Date.now() - semaphoreStart;
         
         if (semaphoreWaitMs > 100) {
-            logger.info('Semaphore wait time', { requestId, semaphoreWaitMs });
+            logger.info('Semaphore wait time', { requestId, userId, semaphoreWaitMs, priority });
         }
 
+        // For streams the permit is handed to the relay and released when it closes
+        let releaseOnExit = true;
+
         try {
-            // Create OpenAI service and make the request
-            const openaiService = new OpenAIService(config, logger);
-            const response = await openaiService.chatCompletion(chatRequest, deployment, requestId);
+            upstreamCall = { userId, deployment };
+
+            // Make the request
+            if (chatRequest.stream) {
+                const upstreamAbort = new AbortController();
+                const upstream = await openaiService.chatCompletionStream(chatRequest, deployment, requestId, { deadline, signal: upstreamAbort.signal });
+
+                // Usage was requested upstream either way; only relay it when the client asked
+                const body = relayEventStream(upstream, (summary) => {
+                    if (summary.outcome === 'aborted') {
+                        upstreamAbort.abort();
+                    }
+                    release();
+                    void tokenReservation!.settle(summary.usage?.total_tokens);
+                    // A stream that ended without usage is charged its estimate, as the token budget keeps it
+                    void recordQuotaUsage(userId, summary.usage?.total_tokens ?? estimatedTokens, requestId, logger);
+                    const promptTokens = summary.usage ? summary.usage.prompt_tokens : estimateChatPromptTokens(chatRequest);
+                    void recordUsage({
+                        userId,
+                        deployment,
+                        operation: 'chat',
+                        outcome: summary.outcome === 'completed' ? 'success' : summary.outcome === 'aborted' ? 'error' : summary.outcome,
+                        promptTokens,
+                        completionTokens: summary.usage ? summary.usage.completion_tokens : estimatedTokens - promptTokens,
+                        totalTokens: summary.usage ? summary.usage.total_tokens : estimatedTokens,
+                        estimated: !summary.usage,
+                        latencyMs: Date.now() - startTime
+                    }, requestId, logger);
+
+                    const fields = {
+                        requestId,
+                        userId,
+                        elapsedMs: Date.now() - startTime,
+                        semaphoreWaitMs,
+                        totalTokens: summary.usage?.total_tokens,
+                        messageCount: chatRequest.messages.length,
+                        chunkCount: summary.chunkCount,
+                        bytes: summary.bytes,
+                        outcome: summary.outcome
+                    };
+
+                    if (summary.outcome === 'error' || summary.outcome === 'aborted') {
+                        logger.error('OpenAI proxy stream failed', { ...fields, error: summary.error });
+                    } else {
+                        logger.info('OpenAI proxy stream closed', fields);
+                    }
+                }, { stripUsage: !chatRequest.stream_options?.include_usage, idleTimeoutMs: config.AOAI_STREAM_IDLE_TIMEOUT_MS });
+                releaseOnExit = false;
+
+                return {
+                    status: 200,
+                    headers: { ...streamHeaders, ...quota.headers },
+                    body
+                };
+            }
+
+            const response = await openaiService.chatCompletion(chatRequest, deployment, requestId, { deadline });
+            await tokenReservation.settle(response.usage?.total_tokens);
+            const [remainingQuota] = await Promise.all([
+                recordQuotaUsage(userId, response.usage?.total_tokens, requestId, logger),
+                recordUsage({
+                    userId,
+                    deployment,
+                    operation: 'chat',
+                    outcome: 'success',
+                    promptTokens: response.usage?.prompt_tokens,
+                    completionTokens: response.usage?.completion_tokens,
+                    totalTokens: response.usage?.total_tokens,
+                    latencyMs: Date.now() - startTime
+                }, requestId, logger)
+            ]);
 
             const successResponse = {
                 success: true,
                 data: response
             } as ApiResponse;
 
-            // Cache successful response if idempotency key provided
-            if (idempotencyKey) {
-                idempotencyCache.set(idempotencyKey, {
-                    response: successResponse,
-                    timestamp: Date.now()
-                });
-                
-                // Clean up old cache entries
-                if (idempotencyCache.size > 1000) {
-                    const cutoff = Date.now() - 600000; // 10 minutes
-                    for (const [key, cached] of idempotencyCache.entries()) {
-                        if (cached.timestamp < cutoff) {
-                            idempotencyCache.delete(key);
-                        }
-                    }
+            if (cacheKey) {
+                responseCache.set(cacheKey, response);
+            }
+
+            // Remember successful response if idempotency key provided
+            if (idempotency?.outcome === 'acquired') {
+                try {
+                    await idempotency.complete(successResponse);
+                } catch (completeError: any) {
+                    // The upstream call succeeded and was billed, so the caller still gets its result
+                    logger.error('Failed to store idempotent response', { requestId, userId, error: completeError.message });
                 }
             }
 
@@ -231,89 +924,203 @@ export async function openaiProxy(request: HttpRequest, context: InvocationConte
                 elapsedMs: Date.now() - startTime,
                 semaphoreWaitMs,
                 totalTokens: response.usage?.total_tokens,
-                messageCount: chatRequest.messages.length
+                messageCount: chatRequest.messages.length,
+                cache: cacheOutcome
             });
 
             return {
                 status: 200,
-                headers: corsHeaders,
+                headers: { ...jsonHeaders, ...remainingQuota, ...(cacheOutcome ? { 'X-Cache': cacheOutcome } : {}) },
                 body: JSON.stringify(successResponse)
             };
 
         } finally {
-            release();
+            if (releaseOnExit) {
+                release();
+            }
         }
 
     } catch (error: any) {
+        // Failed requests are not billed upstream, so release the whole reservation
+        await tokenReservation?.settle(0);
+
+        if (upstreamCall) {
+            await recordUsage({
+                ...upstreamCall,
+                operation: 'chat',
+                outcome: 'error',
+                latencyMs: Date.now() - startTime
+            }, requestId, logger);
+        }
+
         logger.error('Error in OpenAI proxy', {
             requestId,
             elapsedMs: Date.now() - startTime,
             error: error.message,
             errorType: error.constructor.name
         });
-        
-        // Handle different types of errors
-        const aoaiError = error as AOAIError;
-        
-        // Rate limiting or server errors from Azure OpenAI
-        if (aoaiError.status === 429 || (aoaiError.status && aoaiError.status >= 500)) {
+
+        return mapUpstreamError(error, requestId, logger);
+    } finally {
+        // Any outcome other than success frees the key for waiting duplicates and retries
+        if (idempotency?.outcome === 'acquired') {
+            await idempotency.release();
+        }
+    }
+}
+
+registerRoute('openaiProxy', {
+    methods: ['POST'],
+    route: 'openai/chat/completions',
+    cors: corsOptions,
+    auth: 'chat',
+    body: 'json'
+}, openaiProxy);
+
+export async function openaiEmbeddings(request: HttpRequest, ctx: RequestContext): Promise<HttpResponseInit> {
+    const { requestId, logger, startTime } = ctx;
+    const context = ctx.invocation;
+
+    let tokenReservation: TokenReservation | undefined;
+    let upstreamCall: { userId: string; deployment: string } | undefined;  // Set once the request is sent upstream
+
+    try {
+        const user = ctx.user!;
+        const userId = user.userId;
+
+        const { deadline, errorResponse: deadlineError } = resolveDeadline(request, startTime, requestId, logger);
+        if (deadlineError) {
+            return deadlineError;
+        }
+
+        const rateLimited = await checkRateLimits(user, requestId, logger);
+        if (rateLimited) {
+            return rateLimited;
+        }
+
+        const quota = await checkQuota(userId, requestId, logger);
+        if (quota.errorResponse) {
+            return quota.errorResponse;
+        }
+
+        const requestBody = ctx.body;
+
+        const { deployment: resolved, errorResponse: deploymentError } =
+            resolveDeployment(requestBody.deployment, 'embeddings', requestId, user, logger);
+        if (deploymentError) {
+            return deploymentError;
+        }
+        const deployment = resolved!.name;
+
+        const { deployment: _, ...openaiRequestBody } = requestBody;
+        const validation = RequestValidator.validateEmbeddings(openaiRequestBody);
+
+        if (!validation.ok) {
+            logger.warn('Embeddings validation failed', {
+                requestId,
+                userId,
+                error: validation.error,
+                contentHash: createContentHash(openaiRequestBody)
+            });
             return {
-                status: 429,
-                headers: { 
-                    ...corsHeaders,
-                    'Retry-After': '5' 
-                },
+                status: 400,
+                headers: jsonHeaders,
                 body: JSON.stringify({
                     success: false,
-                    error: 'Upstream service is temporarily unavailable. Please try again later.'
+                    error: validation.error
                 } as ApiResponse)
             };
         }
-        
-        // Client errors from Azure OpenAI (400, 401, 403, 404)
-        if (aoaiError.status && aoaiError.status >= 400 && aoaiError.status < 500) {
-            // Check if this is a content filtering error (400 with specific message pattern)
-            if (aoaiError.status === 400 && aoaiError.message?.includes('content management policy')) {
-                logger.warn('Content filtering detected', { requestId, error: aoaiError.message });
-                return {
-                    status: 400,
-                    headers: corsHeaders,
-                    body: JSON.stringify({
-                        success: false,
-                        error: 'Content filtered by Azure OpenAI policy',
-                        errorType: 'content_filter',
-                        detail: 'The request was filtered due to content policy. Consider skipping this transaction or marking it as uncategorized.'
-                    } as ApiResponse)
-                };
-            }
-            
-            // Other client errors (401, 403, 404, or 400 without content filtering)
+
+        const embeddingsRequest = validation.sanitizedRequest!;
+        const endpoints = withApiVersion(await getOpenAIEndpoints(context), resolved!);
+
+        const openaiService = new OpenAIService(endpoints, logger);
+        openaiService.assertAvailable(deployment);
+
+        const budget = await reserveTokens(user, estimateEmbeddingsTokens(embeddingsRequest), requestId, logger);
+        if (budget.errorResponse) {
+            return budget.errorResponse;
+        }
+        tokenReservation = budget.reservation;
+
+        const semaphoreStart = Date.now();
+        const priority = resolvePriority(request, user);
+        // Time spent queueing comes out of the same deadline budget
+        const release = await openaiSemaphore.acquire({ userId, priority, timeoutMs: Math.min(openaiSemaphore.acquireTimeoutMs, deadline! - Date.now()) });
+        const semaphoreWaitMs = Date.now() - semaphoreStart;
+
+        if (semaphoreWaitMs > 100) {
+            logger.info('Semaphore wait time', { requestId, userId, semaphoreWaitMs, priority });
+        }
+
+        try {
+            upstreamCall = { userId, deployment };
+
+            const response = await openaiService.embeddings(embeddingsRequest, deployment, requestId, { deadline });
+            await tokenReservation.settle(response.usage?.total_tokens);
+            const [remainingQuota] = await Promise.all([
+                recordQuotaUsage(userId, response.usage?.total_tokens, requestId, logger),
+                recordUsage({
+                    userId,
+                    deployment,
+                    operation: 'embeddings',
+                    outcome: 'success',
+                    promptTokens: response.usage?.prompt_tokens,
+                    totalTokens: response.usage?.total_tokens,
+                    latencyMs: Date.now() - startTime
+                }, requestId, logger)
+            ]);
+
+            logger.info('OpenAI embeddings success', {
+                requestId,
+                userId,
+                elapsedMs: Date.now() - startTime,
+                semaphoreWaitMs,
+                totalTokens: response.usage?.total_tokens,
+                inputCount: response.data?.length
+            });
+
             return {
-                status: 502,
-                headers: corsHeaders,
+                status: 200,
+                headers: { ...jsonHeaders, ...remainingQuota },
                 body: JSON.stringify({
-                    success: false,
-                    error: 'Invalid request to upstream service',
-                    detail: aoaiError.message?.slice(0, 300)
+                    success: true,
+                    data: response
                 } as ApiResponse)
             };
+
+        } finally {
+            release();
         }
-        
-        // Generic server error
-        return {
-            status: 500,
-            headers: corsHeaders,
-            body: JSON.stringify({
-                success: false,
-                error: 'Internal server error'
-            } as ApiResponse)
-        };
+
+    } catch (error: any) {
+        await tokenReservation?.settle(0);
+
+        if (upstreamCall) {
+            await recordUsage({
+                ...upstreamCall,
+                operation: 'embeddings',
+                outcome: 'error',
+                latencyMs: Date.now() - startTime
+            }, requestId, logger);
+        }
+
+        logger.error('Error in OpenAI embeddings', {
+            requestId,
+            elapsedMs: Date.now() - startTime,
+            error: error.message,
+            errorType: error.constructor.name
+        });
+
+        return mapUpstreamError(error, requestId, logger);
     }
 }
 
-app.http('openaiProxy', {
-    methods: ['POST', 'OPTIONS'],
-    authLevel: 'anonymous',
-    route: 'openai/chat/completions',
-    handler: openaiProxy
-});
\ No newline at end of file
+registerRoute('openaiEmbeddings', {
+    methods: ['POST'],
+    route: 'openai/embeddings',
+    cors: corsOptions,
+    auth: 'embeddings',
+    body: 'json'
+}, openaiEmbeddings);
@@ -0,0 +1,62 @@
+import { HttpRequest, HttpResponseInit } from '@azure/functions';
+import { promptTemplateStore, PromptTemplateStore } from '../services/promptTemplates';
+import { HttpError, jsonResponse, registerRoute, RequestContext } from '../services/middleware';
+
+/**
+ * List and publish prompt templates
+ * GET /api/templates lists templates, GET /api/templates/{id}?version=n returns one
+ * (default: the latest version), POST /api/templates/{id} publishes a new version.
+ * Protected by a function key, since templates become every app's prompts.
+ */
+export async function promptTemplateAdmin(request: HttpRequest, ctx: RequestContext): Promise<HttpResponseInit> {
+    const { requestId, logger } = ctx;
+    const id = request.params.id;
+
+    if (request.method === 'GET' && !id) {
+        const templates = await promptTemplateStore.list();
+        return jsonResponse(200, { success: true, data: templates });
+    }
+
+    if (request.method === 'GET' && id) {
+        const requested = request.query.get('version');
+        const version = requested ? Number(requested) : undefined;
+        if (version !== undefined && (!Number.isInteger(version) || version < 1)) {
+            throw new HttpError(400, 'version must be a positive integer');
+        }
+
+        const template = await promptTemplateStore.get(id, version);
+        if (!template) {
+            throw new HttpError(404, 'Template not found');
+        }
+
+        const versions = await promptTemplateStore.listVersions(id);
+        return jsonResponse(200, { success: true, data: { ...template, versions } });
+    }
+
+    if (request.method === 'POST' && id) {
+        const error = PromptTemplateStore.validatePublish(id, ctx.body);
+        if (error) {
+            throw new HttpError(400, error);
+        }
+
+        const published = await promptTemplateStore.publish(id, ctx.body);
+        logger.info('Prompt template published', {
+            requestId,
+            templateId: id,
+            templateVersion: published.version,
+            variables: Object.keys(published.variables)
+        });
+
+        return jsonResponse(201, { success: true, data: published });
+    }
+
+    throw new HttpError(405, 'Method not allowed');
+}
+
+registerRoute('promptTemplateAdmin', {
+    methods: ['GET', 'POST'],
+    authLevel: 'function',
+    route: 'templates/{id?}',
+    cors: { allowHeaders: ['Content-Type', 'Authorization', 'x-functions-key'] },
+    body: 'json'
+}, promptTemplateAdmin);
@@ -0,0 +1,54 @@
+import { HttpRequest, HttpResponseInit } from '@azure/functions';
+import { usageLedger } from '../services/usageLedger';
+import { HttpError, jsonResponse, registerRoute, RequestContext } from '../services/middleware';
+import { config } from '../services/config';
+
+const DAY_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DEFAULT_REPORT_DAYS = 30;
+const MAX_REPORT_DAYS = config.USAGE_MAX_REPORT_DAYS;
+
+/**
+ * Usage and cost report over a range of UTC days
+ * Query parameters: from, to (YYYY-MM-DD, default the last 30 days), userId, deployment
+ * Protected by a function key, since it exposes usage for every user
+ */
+export async function usage(request: HttpRequest, ctx: RequestContext): Promise<HttpResponseInit> {
+    const today = new Date().toISOString().substring(0, 10);
+    const to = request.query.get('to') || today;
+    const from = request.query.get('from') ||
+        new Date(Date.parse(to) - (DEFAULT_REPORT_DAYS - 1) * DAY_MS).toISOString().substring(0, 10);
+
+    if (!DAY_PATTERN.test(from) || !DAY_PATTERN.test(to) || isNaN(Date.parse(from)) || isNaN(Date.parse(to))) {
+        throw new HttpError(400, 'from and to must be dates in YYYY-MM-DD format');
+    }
+
+    const days = (Date.parse(to) - Date.parse(from)) / DAY_MS + 1;
+    if (days < 1) {
+        throw new HttpError(400, 'from must not be after to');
+    }
+    if (days > MAX_REPORT_DAYS) {
+        throw new HttpError(400, `Report range cannot exceed ${MAX_REPORT_DAYS} days`);
+    }
+
+    const report = await usageLedger.report({
+        from,
+        to,
+        userId: request.query.get('userId') || undefined,
+        deployment: request.query.get('deployment') || undefined
+    });
+
+    ctx.logger.info('Usage report generated', { requestId: ctx.requestId, from, to, days, requests: report.totals.requests });
+
+    return jsonResponse(200, {
+        success: true,
+        data: report
+    });
+}
+
+registerRoute('usage', {
+    methods: ['GET'],
+    authLevel: 'function',
+    route: 'usage',
+    cors: { allowHeaders: ['Content-Type', 'Authorization', 'x-functions-key'] }
+}, usage);
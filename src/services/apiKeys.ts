@@ -0,0 +1,197 @@
+/**
+ * Proxy-issued client API keys
+ * Keys look like "pk_<id>_<secret>". Only a SHA-256 hash of the key is stored,
+ * as one JSON blob per key in the API key container, together with its scopes,
+ * allowed deployments and rate limits. Records are cached briefly, so a
+ * revocation takes effect on every instance within the cache lifetime.
+ */
+
+import { createHash, randomBytes, timingSafeEqual } from 'crypto';
+import { BlobStorageService, getBlobStorageConfig } from './blobStorageService';
+import { BlobStateStore, StateStore } from './stateStore';
+import { config } from './config';
+
+// interactive lets a key's requests queue ahead of batch work for Azure OpenAI capacity
+export type ApiKeyScope = 'chat' | 'embeddings' | 'blob:read' | 'blob:write' | 'interactive';
+
+export const API_KEY_SCOPES: ApiKeyScope[] = ['chat', 'embeddings', 'blob:read', 'blob:write', 'interactive'];
+
+export interface ApiKeyRateLimit {
+    rps?: number;   // Requests per second for this key
+    tpm?: number;   // Tokens per minute for this key
+}
+
+// Stored record; never contains the key itself
+export interface ApiKeyRecord {
+    id: string;
+    name: string;
+    hash: string;
+    scopes: ApiKeyScope[];
+    deployments?: string[];     // Deployment names or aliases; omitted allows any deployment
+    rateLimit?: ApiKeyRateLimit;
+    createdAt: string;
+    expiresAt?: string;
+    revokedAt?: string;
+}
+
+export type ApiKeySummary = Omit<ApiKeyRecord, 'hash'>;
+
+export interface CreateApiKeyRequest {
+    name: string;
+    scopes: ApiKeyScope[];
+    deployments?: string[];
+    rateLimit?: ApiKeyRateLimit;
+    expiresInDays?: number;
+}
+
+const KEY_PATTERN = /^pk_([a-f0-9]{16})_([A-Za-z0-9_-]{43})$/;
+
+function hashKey(key: string): string {
+    return createHash('sha256').update(key).digest('hex');
+}
+
+function toSummary(record: ApiKeyRecord): ApiKeySummary {
+    const { hash: _, ...summary } = record;
+    return summary;
+}
+
+/**
+ * Whether a credential looks like a proxy API key rather than a JWT
+ */
+export function isApiKey(credential: string): boolean {
+    return credential.startsWith('pk_');
+}
+
+export class ApiKeyStore {
+    private cache = new Map<string, { record: ApiKeyRecord | null; expiresAt: number }>();
+
+    constructor(private store: StateStore, private cacheMs: number = 60 * 1000) {}
+
+    /**
+     * Validate a create request, returning an error message when it is invalid
+     */
+    static validateCreate(body: any): string | null {
+        if (!body || typeof body.name !== 'string' || !body.name.trim() || body.name.length > 100) {
+            return 'name is required and must be at most 100 characters';
+        }
+        if (!Array.isArray(body.scopes) || body.scopes.length === 0 ||
+            body.scopes.some((scope: any) => !API_KEY_SCOPES.includes(scope))) {
+            return `scopes must be a non-empty array of: ${API_KEY_SCOPES.join(', ')}`;
+        }
+        if (body.deployments !== undefined &&
+            (!Array.isArray(body.deployments) || body.deployments.some((name: any) => typeof name !== 'string' || !name))) {
+            return 'deployments must be an array of deployment names';
+        }
+        for (const limit of ['rps', 'tpm']) {
+            const value = body.rateLimit?.[limit];
+            if (value !== undefined && (typeof value !== 'number' || value <= 0)) {
+                return `rateLimit.${limit} must be a positive number`;
+            }
+        }
+        if (body.expiresInDays !== undefined && (typeof body.expiresInDays !== 'number' || body.expiresInDays <= 0)) {
+            return 'expiresInDays must be a positive number';
+        }
+        return null;
+    }
+
+    /**
+     * Mint a new key; the plaintext key is only ever returned here
+     */
+    async create(request: CreateApiKeyRequest): Promise<{ key: string; record: ApiKeySummary }> {
+        const id = randomBytes(8).toString('hex');
+        const key = `pk_${id}_${randomBytes(32).toString('base64url')}`;
+        const now = new Date();
+
+        const record: ApiKeyRecord = {
+            id,
+            name: request.name.trim(),
+            hash: hashKey(key),
+            scopes: [...new Set(request.scopes)],
+            deployments: request.deployments,
+            rateLimit: request.rateLimit,
+            createdAt: now.toISOString(),
+            expiresAt: request.expiresInDays
+                ? new Date(now.getTime() + request.expiresInDays * 24 * 60 * 60 * 1000).toISOString()
+                : undefined
+        };
+
+        if (!await this.store.set(`keys:${id}`, record, { ifNoneMatch: true })) {
+            throw new Error('API key ID collision, try again');
+        }
+
+        return { key, record: toSummary(record) };
+    }
+
+    async list(): Promise<ApiKeySummary[]> {
+        const summaries: ApiKeySummary[] = [];
+        for (const stateKey of await this.store.list('keys:', Number.MAX_SAFE_INTEGER)) {
+            const entry = await this.store.get<ApiKeyRecord>(stateKey);
+            if (entry) {
+                summaries.push(toSummary(entry.value));
+            }
+        }
+        return summaries.sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+    }
+
+    /**
+     * Revoke a key, keeping its record for auditing; returns null when the key does not exist
+     */
+    async revoke(id: string): Promise<ApiKeySummary | null> {
+        const record = await this.store.update<ApiKeyRecord, ApiKeyRecord | null>(`keys:${id}`, (current) => {
+            if (!current) {
+                return { result: null };
+            }
+            if (!current.revokedAt) {
+                current.revokedAt = new Date().toISOString();
+            }
+            return { value: current, result: current };
+        });
+
+        this.cache.delete(id);
+        return record ? toSummary(record) : null;
+    }
+
+    /**
+     * Look up the record for a presented key; returns null when the key is unknown, revoked or expired
+     */
+    async verify(key: string): Promise<ApiKeyRecord | null> {
+        const match = KEY_PATTERN.exec(key);
+        if (!match) {
+            return null;
+        }
+
+        const record = await this.getRecord(match[1]);
+        if (!record || record.revokedAt || (record.expiresAt && Date.parse(record.expiresAt) <= Date.now())) {
+            return null;
+        }
+
+        const expected = Buffer.from(record.hash, 'hex');
+        const actual = Buffer.from(hashKey(key), 'hex');
+        return expected.length === actual.length && timingSafeEqual(expected, actual) ? record : null;
+    }
+
+    private async getRecord(id: string): Promise<ApiKeyRecord | null> {
+        const cached = this.cache.get(id);
+        if (cached && cached.expiresAt > Date.now()) {
+            return cached.record;
+        }
+
+        // Unknown IDs are cached too, so guessed keys do not each cost a storage read
+        const entry = await this.store.get<ApiKeyRecord>(`keys:${id}`);
+        const record = entry ? entry.value : null;
+        this.cache.set(id, { record, expiresAt: Date.now() + this.cacheMs });
+        return record;
+    }
+}
+
+// Singleton instance backed by the API key container
+export const apiKeyStore = new ApiKeyStore(
+    new BlobStateStore(async () => {
+        const blobConfig = await getBlobStorageConfig();
+        return new BlobStorageService({
+            ...blobConfig,
+            containerName: config.API_KEYS_CONTAINER
+        });
+    }),
+    config.API_KEY_CACHE_MS
+);
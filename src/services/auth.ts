@@ -0,0 +1,409 @@
+/**
+ * Bearer token authentication for the proxy functions
+ * Verifies JWTs (issuer, audience, expiry and signature against a JWKS) and
+ * derives the user ID used for rate limiting, quotas and logging.
+ * The JWKS can be fetched over HTTPS or read from a local file.
+ * Proxy-issued API keys and proxy tokens are accepted in every mode and carry
+ * their own restrictions.
+ */
+
+import { createPublicKey, verify as verifySignature, constants, KeyObject } from 'crypto';
+import { promises as fs } from 'fs';
+import { RequestValidator } from './validate';
+import { apiKeyStore, isApiKey, ApiKeyRecord, ApiKeyScope } from './apiKeys';
+import { isProxyToken, proxyTokenService, ProxyTokenClaims, ProxyTokenError } from './proxyTokens';
+import { config } from './config';
+import { Logger } from './logger';
+
+export type AuthMode = 'jwt' | 'none';
+
+export interface AuthConfig {
+    mode: AuthMode;
+    jwksUri?: string;                 // https:// URL, file:// URL or local path
+    issuers: string[];
+    audiences: string[];
+    algorithms: string[];
+    userClaim: string;                // Claim used as the user ID, e.g. "sub" or "oid"
+    clockToleranceSeconds: number;
+    jwksCacheMs: number;
+}
+
+export interface AuthenticatedUser {
+    userId: string;                   // Sanitized, safe for state store keys
+    method: 'jwt' | 'header' | 'apikey' | 'token';
+    subject?: string;
+    claims?: Record<string, any>;
+    apiKey?: ApiKeyRecord;            // Set for proxy-issued API keys, which carry their own restrictions
+    proxyToken?: ProxyTokenClaims;    // Set for proxy tokens, which are limited to the OpenAI proxy
+}
+
+export interface AuthResult {
+    ok: boolean;
+    user?: AuthenticatedUser;
+    status?: number;
+    error?: string;
+    headers?: Record<string, string>;
+}
+
+// How each supported algorithm maps onto crypto.verify
+const ALGORITHMS: Record<string, { digest: string; padding?: number; dsaEncoding?: 'ieee-p1363' }> = {
+    RS256: { digest: 'sha256' },
+    RS384: { digest: 'sha384' },
+    RS512: { digest: 'sha512' },
+    PS256: { digest: 'sha256', padding: constants.RSA_PKCS1_PSS_PADDING },
+    PS384: { digest: 'sha384', padding: constants.RSA_PKCS1_PSS_PADDING },
+    PS512: { digest: 'sha512', padding: constants.RSA_PKCS1_PSS_PADDING },
+    ES256: { digest: 'sha256', dsaEncoding: 'ieee-p1363' },
+    ES384: { digest: 'sha384', dsaEncoding: 'ieee-p1363' },
+    ES512: { digest: 'sha512', dsaEncoding: 'ieee-p1363' }
+};
+
+// Unknown key IDs trigger a JWKS refresh at most this often
+const MIN_JWKS_REFRESH_MS = 30 * 1000;
+
+// The JWKS could not be loaded, so the token could not be checked at all
+class KeysUnavailableError extends Error {}
+
+function decodeSegment(segment: string): any {
+    return JSON.parse(Buffer.from(segment, 'base64url').toString('utf8'));
+}
+
+function splitList(value: string | undefined): string[] {
+    return (value || '').split(',').map(item => item.trim()).filter(Boolean);
+}
+
+/**
+ * User IDs end up in state store keys and logs, so keep them to a safe character set
+ */
+export function toUserId(value: string): string {
+    return value.replace(/[^a-zA-Z0-9._@-]/g, '').substring(0, 128);
+}
+
+/**
+ * Whether the caller may use a scope; only API keys and proxy tokens are restricted
+ */
+export function hasScope(user: AuthenticatedUser, scope: ApiKeyScope): boolean {
+    const scopes = user.apiKey?.scopes || user.proxyToken?.scopes;
+    return !scopes || scopes.includes(scope);
+}
+
+/**
+ * Whether the caller may use a deployment, matched by real name or by the alias it requested
+ */
+export function canUseDeployment(user: AuthenticatedUser, name: string, requested: string): boolean {
+    const allowed = user.apiKey?.deployments || user.proxyToken?.deployments;
+    return !allowed || allowed.includes(name) || allowed.includes(requested);
+}
+
+/**
+ * Signing keys from a JWKS document, cached and refreshed when a token names an unknown key
+ */
+export class JwksKeySource {
+    private keys = new Map<string, KeyObject>();
+    private loadedAt = 0;
+    private loading: Promise<void> | null = null;
+
+    constructor(private uri: string, private cacheMs: number = 10 * 60 * 1000) {}
+
+    async getKey(kid: string | undefined): Promise<KeyObject | undefined> {
+        const age = Date.now() - this.loadedAt;
+        if (age > this.cacheMs || (!this.findKey(kid) && age > MIN_JWKS_REFRESH_MS)) {
+            try {
+                await this.load();
+            } catch (error) {
+                // Keep verifying with the last good key set while the JWKS is unreachable
+                if (this.keys.size === 0) {
+                    throw error;
+                }
+            }
+        }
+
+        return this.findKey(kid);
+    }
+
+    private findKey(kid: string | undefined): KeyObject | undefined {
+        if (kid) {
+            return this.keys.get(kid);
+        }
+        // Tokens without a key ID are only accepted when the set has a single key
+        return this.keys.size === 1 ? this.keys.values().next().value : undefined;
+    }
+
+    private load(): Promise<void> {
+        if (!this.loading) {
+            this.loading = this.fetchKeys()
+                .then(keys => {
+                    this.keys = keys;
+                    this.loadedAt = Date.now();
+                })
+                .finally(() => { this.loading = null; });
+        }
+        return this.loading;
+    }
+
+    private async fetchKeys(): Promise<Map<string, KeyObject>> {
+        let document: any;
+
+        if (/^https?:\/\//i.test(this.uri)) {
+            const response = await fetch(this.uri, { signal: AbortSignal.timeout(10000) });
+            if (!response.ok) {
+                throw new Error(`JWKS request failed with status ${response.status}`);
+            }
+            document = await response.json();
+        } else {
+            const path = this.uri.startsWith('file://') ? new URL(this.uri) : this.uri;
+            document = JSON.parse(await fs.readFile(path, 'utf8'));
+        }
+
+        const keys = new Map<string, KeyObject>();
+        for (const [index, jwk] of (document?.keys || []).entries()) {
+            // Skip encryption keys and anything Node cannot import
+            if (jwk.use && jwk.use !== 'sig') {
+                continue;
+            }
+            try {
+                keys.set(jwk.kid || `key-${index}`, createPublicKey({ key: jwk, format: 'jwk' }));
+            } catch {
+                continue;
+            }
+        }
+
+        if (keys.size === 0) {
+            throw new Error('JWKS contains no usable signing keys');
+        }
+        return keys;
+    }
+}
+
+export class Authenticator {
+    private keySource: JwksKeySource | null;
+    private logger = new Logger();
+
+    /**
+     * @param config Authentication settings
+     * @param configError Set when JWT mode is misconfigured; every request is then rejected
+     */
+    constructor(private config: AuthConfig, private configError?: string) {
+        this.keySource = config.mode === 'jwt' && config.jwksUri
+            ? new JwksKeySource(config.jwksUri, config.jwksCacheMs)
+            : null;
+    }
+
+    /**
+     * Build the authenticator from the AUTH_* settings.
+     * JWT mode is the default as soon as a JWKS is configured.
+     */
+    static fromEnvironment(): Authenticator {
+        const jwksUri = config.AUTH_JWKS_URI;
+        const authConfig: AuthConfig = {
+            mode: config.AUTH_MODE || (jwksUri ? 'jwt' : 'none'),
+            jwksUri,
+            issuers: splitList(config.AUTH_ISSUER),
+            audiences: splitList(config.AUTH_AUDIENCE),
+            algorithms: splitList(config.AUTH_ALGORITHMS),
+            userClaim: config.AUTH_USER_CLAIM,
+            clockToleranceSeconds: config.AUTH_CLOCK_TOLERANCE_SECONDS,
+            jwksCacheMs: config.AUTH_JWKS_CACHE_MS
+        };
+
+        let configError: string | undefined;
+        if (authConfig.mode === 'jwt') {
+            const unsupported = authConfig.algorithms.filter(alg => !ALGORITHMS[alg]);
+            if (!jwksUri || authConfig.issuers.length === 0 || authConfig.audiences.length === 0) {
+                configError = 'AUTH_JWKS_URI, AUTH_ISSUER and AUTH_AUDIENCE are required in jwt mode';
+            } else if (unsupported.length > 0) {
+                configError = `Unsupported AUTH_ALGORITHMS: ${unsupported.join(', ')}`;
+            }
+        }
+
+        if (configError) {
+            new Logger().error('Invalid authentication configuration', { error: configError });
+        } else if (authConfig.mode === 'none') {
+            new Logger().warn('Authentication is disabled: callers are identified by the x-user-id header they send', {
+                authModeSet: !!config.AUTH_MODE
+            });
+        }
+        return new Authenticator(authConfig, configError);
+    }
+
+    get mode(): AuthMode {
+        return this.config.mode;
+    }
+
+    /**
+     * Authenticate a request from its headers.
+     * Without JWT mode the legacy, client-supplied user ID headers are used.
+     */
+    async authenticate(headers: any): Promise<AuthResult> {
+        if (this.configError) {
+            return { ok: false, status: 500, error: 'Authentication is misconfigured' };
+        }
+
+        // Proxy-issued API keys are accepted in every mode, in x-api-key or as the bearer credential
+        const authorization: string = headers?.get?.('authorization') || '';
+        const match = /^Bearer\s+(\S+)$/i.exec(authorization);
+        const apiKey: string | null = headers?.get?.('x-api-key') || (match && isApiKey(match[1]) ? match[1] : null);
+        if (apiKey) {
+            return this.authenticateApiKey(apiKey);
+        }
+        if (match && isProxyToken(match[1])) {
+            return this.authenticateProxyToken(match[1]);
+        }
+
+        if (this.config.mode === 'none') {
+            return { ok: true, user: { userId: RequestValidator.extractUserId(headers), method: 'header' } };
+        }
+
+        if (!match) {
+            return this.reject('Bearer token is required', authorization ? 'invalid_request' : undefined);
+        }
+
+        try {
+            const claims = await this.verify(match[1]);
+            const subject = claims[this.config.userClaim];
+            const userId = typeof subject === 'string' ? toUserId(subject) : '';
+            if (!userId) {
+                return this.reject(`Token has no ${this.config.userClaim} claim`, 'invalid_token');
+            }
+
+            return { ok: true, user: { userId, subject, claims, method: 'jwt' } };
+        } catch (error: any) {
+            if (error instanceof KeysUnavailableError) {
+                this.logger.error('JWKS could not be loaded', { error: error.message });
+                return { ok: false, status: 503, error: 'Token signing keys are temporarily unavailable', headers: { 'Retry-After': '5' } };
+            }
+            return this.reject(error.message, 'invalid_token');
+        }
+    }
+
+    private async authenticateApiKey(key: string): Promise<AuthResult> {
+        let record: ApiKeyRecord | null;
+        try {
+            record = await apiKeyStore.verify(key);
+        } catch (error: any) {
+            this.logger.error('API key lookup failed', { error: error.message });
+            return { ok: false, status: 503, error: 'API key verification is temporarily unavailable', headers: { 'Retry-After': '5' } };
+        }
+
+        if (!record) {
+            return this.reject('API key is invalid, revoked or expired', 'invalid_token');
+        }
+
+        return { ok: true, user: { userId: `apikey-${record.id}`, method: 'apikey', subject: record.name, apiKey: record } };
+    }
+
+    // Proxy tokens act for the user they were issued to, so usage counts against that user
+    private async authenticateProxyToken(token: string): Promise<AuthResult> {
+        try {
+            const claims = await proxyTokenService.verify(token);
+            return { ok: true, user: { userId: claims.sub, method: 'token', subject: claims.sub, proxyToken: claims } };
+        } catch (error: any) {
+            if (error instanceof ProxyTokenError) {
+                return this.reject(error.message, 'invalid_token');
+            }
+            this.logger.error('Proxy token signing key unavailable', { error: error.message });
+            return { ok: false, status: 503, error: 'Proxy token verification is temporarily unavailable', headers: { 'Retry-After': '5' } };
+        }
+    }
+
+    /**
+     * Verify a compact JWS and return its claims; throws with a client-safe message when invalid
+     */
+    async verify(token: string): Promise<Record<string, any>> {
+        const parts = token.split('.');
+        if (parts.length !== 3) {
+            throw new Error('Token is malformed');
+        }
+
+        let header: any;
+        let claims: any;
+        try {
+            header = decodeSegment(parts[0]);
+            claims = decodeSegment(parts[1]);
+        } catch {
+            throw new Error('Token is malformed');
+        }
+
+        if (!claims || typeof claims !== 'object') {
+            throw new Error('Token is malformed');
+        }
+
+        const algorithm = ALGORITHMS[header?.alg];
+        if (!algorithm || !this.config.algorithms.includes(header.alg)) {
+            throw new Error('Token algorithm is not allowed');
+        }
+
+        let key: KeyObject | undefined;
+        try {
+            key = await this.keySource!.getKey(header.kid);
+        } catch (error: any) {
+            throw new KeysUnavailableError(error.message);
+        }
+        if (!key) {
+            throw new Error('Token signing key is unknown');
+        }
+
+        let signatureValid = false;
+        try {
+            signatureValid = verifySignature(
+                algorithm.digest,
+                Buffer.from(`${parts[0]}.${parts[1]}`),
+                { key, padding: algorithm.padding, dsaEncoding: algorithm.dsaEncoding },
+                Buffer.from(parts[2], 'base64url')
+            );
+        } catch {
+            // The key type does not match the algorithm
+        }
+        if (!signatureValid) {
+            throw new Error('Token signature is invalid');
+        }
+
+        const now = Math.floor(Date.now() / 1000);
+        const tolerance = this.config.clockToleranceSeconds;
+        if (typeof claims.exp !== 'number' || claims.exp + tolerance < now) {
+            throw new Error('Token is expired');
+        }
+        if (typeof claims.nbf === 'number' && claims.nbf - tolerance > now) {
+            throw new Error('Token is not yet valid');
+        }
+        if (!this.config.issuers.includes(claims.iss)) {
+            throw new Error('Token issuer is not allowed');
+        }
+
+        const audiences = Array.isArray(claims.aud) ? claims.aud : [claims.aud];
+        if (!audiences.some((aud: any) => this.config.audiences.includes(aud))) {
+            throw new Error('Token audience is not allowed');
+        }
+
+        return claims;
+    }
+
+    private reject(error: string, code?: 'invalid_request' | 'invalid_token'): AuthResult {
+        return {
+            ok: false,
+            status: 401,
+            error,
+            headers: {
+                'WWW-Authenticate': code ? `Bearer error="${code}", error_description="${error}"` : 'Bearer'
+            }
+        };
+    }
+
+    /**
+     * Get current configuration for monitoring
+     */
+    getStatus(): Record<string, any> {
+        return {
+            mode: this.config.mode,
+            jwksConfigured: !!this.config.jwksUri,
+            issuerCount: this.config.issuers.length,
+            audienceCount: this.config.audiences.length,
+            algorithms: this.config.algorithms,
+            userClaim: this.config.userClaim,
+            configError: this.configError
+        };
+    }
+}
+
+// Singleton instance
+export const authenticator = Authenticator.fromEnvironment();
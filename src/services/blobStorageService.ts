@@ -1,6 +1,22 @@
+import { InvocationContext } from '@azure/functions';
 import { BlobServiceClient, ContainerClient, BlobClient, StorageSharedKeyCredential } from '@azure/storage-blob';
 import { DefaultAzureCredential } from '@azure/identity';
 import { BlobStorageConfig, BlobUploadRequest, BlobDownloadResponse, BlobOperationResult, BlobListItem } from '../types';
+import { Logger } from './logger';
+import { config } from './config';
+import { SECRET_REFS, secretProviders } from './secretProviders';
+
+/**
+ * Thrown by downloadBlob when the blob does not exist; carries the storage status and error code
+ */
+export class BlobNotFoundError extends Error {
+    readonly statusCode = 404;
+    readonly code = 'BlobNotFound';
+
+    constructor(public blobName: string) {
+        super(`Blob ${blobName} not found`);
+    }
+}
 
 export class BlobStorageService {
     private containerClient: ContainerClient;
@@ -56,6 +72,51 @@ export class BlobStorageService {
         }
     }
 
+    /**
+     * Upload a blob only if its current state matches the given conditions.
+     * Returns null instead of throwing when the precondition fails, so callers
+     * can implement optimistic concurrency on top of ETags.
+     * @param conditions ifMatch: required current ETag; ifNoneMatch: '*' to only create
+     */
+    async uploadBlobConditional(
+        blobName: string,
+        content: string,
+        conditions: { ifMatch?: string; ifNoneMatch?: string },
+        contentType: string = 'application/json'
+    ): Promise<BlobOperationResult | null> {
+        try {
+            const blobClient = this.containerClient.getBlockBlobClient(blobName);
+            const uploadResponse = await blobClient.upload(content, Buffer.byteLength(content), {
+                blobHTTPHeaders: { blobContentType: contentType },
+                conditions
+            });
+
+            return {
+                blobName,
+                success: true,
+                etag: uploadResponse.etag,
+                lastModified: uploadResponse.lastModified
+            };
+        } catch (error) {
+            // 412: ETag mismatch, 409: blob already exists for ifNoneMatch '*'
+            if (error.statusCode === 412 || error.statusCode === 409) {
+                return null;
+            }
+            throw new Error(`Failed to upload blob ${blobName}: ${error.message}`);
+        }
+    }
+
+    /**
+     * Create the container if it does not exist yet
+     */
+    async ensureContainer(): Promise<void> {
+        try {
+            await this.containerClient.createIfNotExists();
+        } catch (error) {
+            throw new Error(`Failed to create container ${this.config.containerName}: ${error.message}`);
+        }
+    }
+
     /**
      * Download a blob
      */
@@ -82,7 +143,7 @@ export class BlobStorageService {
             };
         } catch (error) {
             if (error.statusCode === 404) {
-                throw new Error(`Blob ${blobName} not found`);
+                throw new BlobNotFoundError(blobName);
             }
             throw new Error(`Failed to download blob ${blobName}: ${error.message}`);
         }
@@ -90,17 +151,22 @@ export class BlobStorageService {
 
     /**
      * Delete a blob
+     * @param conditions ifMatch: only delete the blob while it still has this ETag;
+     * success is false when it has changed since
      */
-    async deleteBlob(blobName: string): Promise<BlobOperationResult> {
+    async deleteBlob(blobName: string, conditions: { ifMatch?: string } = {}): Promise<BlobOperationResult> {
         try {
             const blobClient = this.containerClient.getBlobClient(blobName);
-            await blobClient.deleteIfExists();
+            await blobClient.deleteIfExists({ conditions });
 
             return {
                 blobName: blobName,
                 success: true
             };
         } catch (error) {
+            if (error.statusCode === 412) {
+                return { blobName, success: false };
+            }
             throw new Error(`Failed to delete blob ${blobName}: ${error.message}`);
         }
     }
@@ -129,6 +195,26 @@ export class BlobStorageService {
         }
     }
 
+    /**
+     * Download an image blob as a data URL.
+     * blobProxy stores uploads as text, so images are expected to have been
+     * uploaded either as a complete data URL or as base64 with an image content type.
+     */
+    async downloadImageAsDataUrl(blobName: string): Promise<string> {
+        const blob = await this.downloadBlob(blobName);
+        const content = blob.content.trim();
+
+        if (content.startsWith('data:')) {
+            return content;
+        }
+
+        if (!blob.contentType.startsWith('image/')) {
+            throw new Error(`Blob ${blobName} is not an image (content type ${blob.contentType})`);
+        }
+
+        return `data:${blob.contentType};base64,${content}`;
+    }
+
     /**
      * Check if a blob exists
      */
@@ -156,4 +242,35 @@ export class BlobStorageService {
             readableStream.on('error', reject);
         });
     }
-}
\ No newline at end of file
+}
+
+// Get Blob Storage configuration: credentials from the secret providers, names from config
+export async function getBlobStorageConfig(context?: InvocationContext): Promise<BlobStorageConfig> {
+    const logger = new Logger(context);
+    
+    try {
+        const connectionString = await secretProviders.findSecret(SECRET_REFS.storageConnectionString);
+        const accountName = config.AZURE_STORAGE_ACCOUNT_NAME;
+        const containerName = config.AZURE_BLOB_CONTAINER_NAME;
+
+        if (connectionString) {
+            return {
+                connectionString: connectionString,
+                containerName: containerName
+            };
+        }
+
+        if (accountName) {
+            const accountKey = await secretProviders.findSecret(SECRET_REFS.storageAccountKey);
+            return accountKey
+                ? { accountName, accountKey, containerName }
+                // Use managed identity
+                : { accountName, containerName };
+        }
+
+        throw new Error('No blob storage connection string or account name is configured in any secret provider');
+    } catch (error) {
+        logger.error('Failed to get blob storage configuration', { error: error.message });
+        throw error;
+    }
+}
@@ -0,0 +1,175 @@
+/**
+ * Circuit breaker for upstream Azure OpenAI calls
+ * One circuit per endpoint and deployment; opens after repeated failures so
+ * requests fail fast instead of retrying against an upstream that is down
+ */
+
+import { config } from './config';
+
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+interface Circuit {
+    state: CircuitState;
+    consecutiveFailures: number;
+    openedAt: number;        // timestamp in ms when the circuit last opened
+    probesInFlight: number;  // requests currently testing a half-open circuit
+    probeSuccesses: number;
+    totalOpens: number;
+    lastFailure?: string;
+}
+
+export class CircuitBreaker {
+    private circuits = new Map<string, Circuit>();
+
+    constructor(
+        private failureThreshold: number = 5,
+        private openMs: number = 30000,
+        private halfOpenProbes: number = 1
+    ) {}
+
+    /**
+     * Key identifying the circuit for an endpoint and deployment
+     */
+    static keyFor(endpoint: string, deployment: string): string {
+        return `${endpoint}|${deployment}`;
+    }
+
+    /**
+     * Whether a request may be sent through this circuit right now.
+     * Does not reserve anything; call onAttempt once the circuit is actually used.
+     */
+    isAvailable(key: string): boolean {
+        const circuit = this.circuits.get(key);
+        if (!circuit || circuit.state === 'closed') {
+            return true;
+        }
+
+        if (circuit.state === 'open' && Date.now() - circuit.openedAt < this.openMs) {
+            return false;
+        }
+
+        // Open long enough to probe, or already half-open
+        return circuit.probesInFlight < this.halfOpenProbes;
+    }
+
+    /**
+     * Record that a request is being sent; moves an expired open circuit to half-open
+     */
+    onAttempt(key: string): void {
+        const circuit = this.getCircuit(key);
+
+        if (circuit.state === 'open' && Date.now() - circuit.openedAt >= this.openMs) {
+            circuit.state = 'half-open';
+            circuit.probeSuccesses = 0;
+        }
+
+        if (circuit.state === 'half-open') {
+            circuit.probesInFlight++;
+        }
+    }
+
+    onSuccess(key: string): void {
+        const circuit = this.getCircuit(key);
+        circuit.consecutiveFailures = 0;
+
+        if (circuit.state === 'half-open') {
+            circuit.probesInFlight = Math.max(0, circuit.probesInFlight - 1);
+            circuit.probeSuccesses++;
+
+            if (circuit.probeSuccesses >= this.halfOpenProbes) {
+                circuit.state = 'closed';
+                circuit.probeSuccesses = 0;
+            }
+        }
+    }
+
+    /**
+     * The attempt says nothing about upstream health, e.g. a 429 or a client error:
+     * frees a half-open probe slot without closing the circuit or resetting the failure count
+     */
+    onInconclusive(key: string): void {
+        const circuit = this.getCircuit(key);
+
+        if (circuit.state === 'half-open') {
+            circuit.probesInFlight = Math.max(0, circuit.probesInFlight - 1);
+        }
+    }
+
+    onFailure(key: string, error: string): void {
+        const circuit = this.getCircuit(key);
+        circuit.consecutiveFailures++;
+        circuit.lastFailure = error.slice(0, 200);
+
+        // A failed probe reopens immediately; a closed circuit opens at the threshold
+        if (circuit.state === 'half-open' || circuit.consecutiveFailures >= this.failureThreshold) {
+            if (circuit.state !== 'open') {
+                circuit.totalOpens++;
+            }
+            circuit.state = 'open';
+            circuit.openedAt = Date.now();
+            circuit.probesInFlight = 0;
+            circuit.probeSuccesses = 0;
+        }
+    }
+
+    /**
+     * Milliseconds until the circuit lets a probe through (0 when available)
+     */
+    retryAfterMs(key: string): number {
+        const circuit = this.circuits.get(key);
+        if (!circuit || circuit.state !== 'open') {
+            return 0;
+        }
+
+        return Math.max(0, circuit.openedAt + this.openMs - Date.now());
+    }
+
+    private getCircuit(key: string): Circuit {
+        let circuit = this.circuits.get(key);
+
+        if (!circuit) {
+            circuit = {
+                state: 'closed',
+                consecutiveFailures: 0,
+                openedAt: 0,
+                probesInFlight: 0,
+                probeSuccesses: 0,
+                totalOpens: 0
+            };
+            this.circuits.set(key, circuit);
+        }
+
+        return circuit;
+    }
+
+    /**
+     * Get current status for monitoring
+     */
+    getStatus(): { failureThreshold: number; openMs: number; halfOpenProbes: number; circuits: Record<string, any> } {
+        const circuits: Record<string, any> = {};
+
+        for (const [key, circuit] of this.circuits.entries()) {
+            circuits[key] = {
+                state: circuit.state,
+                consecutiveFailures: circuit.consecutiveFailures,
+                retryAfterMs: this.retryAfterMs(key),
+                totalOpens: circuit.totalOpens,
+                lastFailure: circuit.lastFailure
+            };
+        }
+
+        return {
+            failureThreshold: this.failureThreshold,
+            openMs: this.openMs,
+            halfOpenProbes: this.halfOpenProbes,
+            circuits
+        };
+    }
+}
+
+// Singleton instance shared by all requests in this instance
+export const circuitBreaker = new CircuitBreaker(
+    config.AOAI_CIRCUIT_FAILURE_THRESHOLD,
+    config.AOAI_CIRCUIT_OPEN_MS,
+    config.AOAI_CIRCUIT_HALF_OPEN_PROBES
+);
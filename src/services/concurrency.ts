@@ -1,35 +1,202 @@
 /**
  * Semaphore implementation for controlling concurrency of Azure OpenAI calls
+ * Waiters are queued by priority class and, within a class, served round-robin
+ * across users, so one user's batch cannot starve everyone queued behind it.
+ * The queue is bounded and waits time out, so excess load is shed quickly
+ * instead of waiting for the Functions host timeout.
  */
 
+import { config } from './config';
+
 export interface Release {
     (): void;
 }
 
+export type Priority = 'interactive' | 'batch';
+
+export const PRIORITIES: Priority[] = ['interactive', 'batch'];
+
+export interface AcquireOptions {
+    userId?: string;        // Waiters are served round-robin across users (default: one shared queue)
+    priority?: Priority;    // Default: interactive
+    timeoutMs?: number;     // Default: the semaphore's acquire timeout
+    signal?: AbortSignal;   // Stop waiting when aborted
+}
+
+export type SemaphoreRejection = 'queue_full' | 'timeout' | 'aborted';
+
+/**
+ * Thrown by acquire when no permit was granted; retryAfterSeconds estimates when capacity frees up
+ */
+export class SemaphoreRejectedError extends Error {
+    constructor(public reason: SemaphoreRejection, public retryAfterSeconds: number) {
+        super(reason === 'queue_full'
+            ? 'Concurrency queue is full'
+            : reason === 'timeout' ? 'Timed out waiting for a concurrency permit' : 'Wait for a concurrency permit was aborted');
+    }
+}
+
+interface Waiter {
+    grant: () => void;
+    enqueuedAt: number;
+}
+
+// Weight of the newest permit hold time in the moving average used for Retry-After
+const HOLD_TIME_SMOOTHING = 0.2;
+const MAX_RETRY_AFTER_SECONDS = 60;
+
+// One priority class: a queue per user, in the order users are next served
+class FairQueue {
+    private users = new Map<string, Waiter[]>();
+    private size = 0;
+
+    get length(): number {
+        return this.size;
+    }
+
+    push(userId: string, waiter: Waiter): void {
+        const queue = this.users.get(userId);
+        if (queue) {
+            queue.push(waiter);
+        } else {
+            this.users.set(userId, [waiter]);
+        }
+        this.size++;
+    }
+
+    /**
+     * Remove a waiter that stopped waiting; returns false when it was already served
+     */
+    remove(userId: string, waiter: Waiter): boolean {
+        const queue = this.users.get(userId);
+        const index = queue ? queue.indexOf(waiter) : -1;
+        if (index < 0) {
+            return false;
+        }
+
+        queue!.splice(index, 1);
+        if (queue!.length === 0) {
+            this.users.delete(userId);
+        }
+        this.size--;
+        return true;
+    }
+
+    /**
+     * Take the first user's oldest waiter and move that user to the back of the rotation
+     */
+    shift(): Waiter | undefined {
+        const next = this.users.entries().next();
+        if (next.done) {
+            return undefined;
+        }
+
+        const [userId, queue] = next.value;
+        const waiter = queue.shift()!;
+        this.users.delete(userId);
+        if (queue.length > 0) {
+            this.users.set(userId, queue);
+        }
+        this.size--;
+        return waiter;
+    }
+
+    // Aggregates only, since diagnostics is not authenticated and must not list user IDs
+    getStatus(now: number): { waiting: number; users: number; maxPerUser: number; oldestWaitMs: number } {
+        let maxPerUser = 0;
+        let oldest = now;
+        for (const queue of this.users.values()) {
+            maxPerUser = Math.max(maxPerUser, queue.length);
+            oldest = Math.min(oldest, queue[0].enqueuedAt);
+        }
+
+        return {
+            waiting: this.size,
+            users: this.users.size,
+            maxPerUser,
+            oldestWaitMs: now - oldest
+        };
+    }
+}
+
 export class Semaphore {
     private permits: number;
-    private waitQueue: Array<() => void> = [];
-    
-    constructor(private maxPermits: number) {
+    private queues: Record<Priority, FairQueue> = { interactive: new FairQueue(), batch: new FairQueue() };
+    private interactiveStreak = 0;
+    private averageHoldMs = 1000;
+    private metrics = { acquired: 0, shed: 0, timedOut: 0, aborted: 0 };
+
+    /**
+     * @param maxPermits Maximum concurrent permits
+     * @param interactiveWeight Interactive waiters served per batch waiter while both are queued
+     * @param maxQueueDepth Waiters allowed before new requests are shed
+     * @param acquireTimeoutMs How long a waiter may queue before giving up
+     */
+    constructor(
+        private maxPermits: number,
+        private interactiveWeight: number = 4,
+        private maxQueueDepth: number = 100,
+        readonly acquireTimeoutMs: number = 30000
+    ) {
         this.permits = maxPermits;
     }
 
     /**
      * Acquire a permit, returns a promise that resolves with a release function
+     * Rejects with SemaphoreRejectedError when the queue is full, the wait times out or the signal aborts
      */
-    async acquire(): Promise<Release> {
-        return new Promise<Release>((resolve) => {
+    async acquire(options: AcquireOptions = {}): Promise<Release> {
+        return new Promise<Release>((resolve, reject) => {
+            if (options.signal?.aborted) {
+                this.metrics.aborted++;
+                reject(new SemaphoreRejectedError('aborted', this.retryAfterSeconds()));
+                return;
+            }
+
             if (this.permits > 0) {
                 // Permit available immediately
                 this.permits--;
+                this.metrics.acquired++;
                 resolve(this.createRelease());
-            } else {
-                // Wait in queue
-                this.waitQueue.push(() => {
+                return;
+            }
+
+            if (this.queueLength() >= this.maxQueueDepth) {
+                this.metrics.shed++;
+                reject(new SemaphoreRejectedError('queue_full', this.retryAfterSeconds()));
+                return;
+            }
+
+            // Wait in queue
+            const userId = options.userId || '';
+            const queue = this.queues[options.priority || 'interactive'];
+
+            const stopWaiting = (reason: SemaphoreRejection) => {
+                if (queue.remove(userId, waiter)) {
+                    cleanup();
+                    this.metrics[reason === 'timeout' ? 'timedOut' : 'aborted']++;
+                    reject(new SemaphoreRejectedError(reason, this.retryAfterSeconds()));
+                }
+            };
+            const onAbort = () => stopWaiting('aborted');
+            const timer = setTimeout(() => stopWaiting('timeout'), options.timeoutMs ?? this.acquireTimeoutMs);
+            const cleanup = () => {
+                clearTimeout(timer);
+                options.signal?.removeEventListener('abort', onAbort);
+            };
+
+            const waiter: Waiter = {
+                grant: () => {
+                    cleanup();
                     this.permits--;
+                    this.metrics.acquired++;
                     resolve(this.createRelease());
-                });
-            }
+                },
+                enqueuedAt: Date.now()
+            };
+
+            queue.push(userId, waiter);
+            options.signal?.addEventListener('abort', onAbort);
         });
     }
 
@@ -37,30 +204,89 @@ export class Semaphore {
      * Create a release function that returns the permit and processes the queue
      */
     private createRelease(): Release {
+        const acquiredAt = Date.now();
+        let released = false;
         return () => {
+            // Releasing twice must not hand out an extra permit
+            if (released) {
+                return;
+            }
+            released = true;
             this.permits++;
-            
+            this.averageHoldMs += (Date.now() - acquiredAt - this.averageHoldMs) * HOLD_TIME_SMOOTHING;
+
             // Process next in queue if any
-            const nextWaiter = this.waitQueue.shift();
+            const nextWaiter = this.nextWaiter();
             if (nextWaiter) {
-                nextWaiter();
+                nextWaiter.grant();
             }
         };
     }
 
+    private queueLength(): number {
+        return this.queues.interactive.length + this.queues.batch.length;
+    }
+
+    /**
+     * Estimate when a new request would get a permit: the queue ahead of it drained
+     * at the average permit hold time across all permits
+     */
+    private retryAfterSeconds(): number {
+        const waitMs = (this.queueLength() + 1) * this.averageHoldMs / this.maxPermits;
+        return Math.min(MAX_RETRY_AFTER_SECONDS, Math.max(1, Math.ceil(waitMs / 1000)));
+    }
+
+    /**
+     * Interactive waiters go first, but batch gets a turn after every interactiveWeight grants
+     */
+    private nextWaiter(): Waiter | undefined {
+        const { interactive, batch } = this.queues;
+
+        if (interactive.length > 0 && (batch.length === 0 || this.interactiveStreak < this.interactiveWeight)) {
+            this.interactiveStreak++;
+            return interactive.shift();
+        }
+
+        this.interactiveStreak = 0;
+        return batch.shift();
+    }
+
     /**
      * Get current status for monitoring
      */
-    getStatus(): { availablePermits: number; queueLength: number; maxPermits: number } {
+    getStatus(): {
+        availablePermits: number;
+        queueLength: number;
+        maxPermits: number;
+        interactiveWeight: number;
+        maxQueueDepth: number;
+        acquireTimeoutMs: number;
+        averageHoldMs: number;
+        metrics: { acquired: number; shed: number; timedOut: number; aborted: number };
+        queues: Record<Priority, { waiting: number; users: number; maxPerUser: number; oldestWaitMs: number }>;
+    } {
+        const now = Date.now();
         return {
             availablePermits: this.permits,
-            queueLength: this.waitQueue.length,
-            maxPermits: this.maxPermits
+            queueLength: this.queueLength(),
+            maxPermits: this.maxPermits,
+            interactiveWeight: this.interactiveWeight,
+            maxQueueDepth: this.maxQueueDepth,
+            acquireTimeoutMs: this.acquireTimeoutMs,
+            averageHoldMs: Math.round(this.averageHoldMs),
+            metrics: { ...this.metrics },
+            queues: {
+                interactive: this.queues.interactive.getStatus(now),
+                batch: this.queues.batch.getStatus(now)
+            }
         };
     }
 }
 
 // Global semaphore instance for Azure OpenAI calls
 export const openaiSemaphore = new Semaphore(
-    Number(process.env.MAX_PARALLEL_AOAI || 8)
-);
\ No newline at end of file
+    config.MAX_PARALLEL_AOAI,
+    config.AOAI_INTERACTIVE_WEIGHT,
+    config.AOAI_MAX_QUEUE_DEPTH,
+    config.AOAI_ACQUIRE_TIMEOUT_MS
+);
@@ -0,0 +1,348 @@
+/**
+ * Typed application settings
+ * Every environment variable the app reads is declared here once, with its type,
+ * default, allowed range and whether it is secret. Values are parsed and checked
+ * when the module loads, so a bad setting stops the host at startup with every
+ * problem listed, and services read typed values from `config` instead of
+ * process.env. Diagnostics builds its redacted report from the same schema.
+ */
+
+import { Logger } from './logger';
+
+export type SettingType = 'string' | 'integer' | 'number' | 'boolean' | 'enum' | 'url' | 'json';
+
+export interface Setting<T> {
+    type: SettingType;
+    description: string;
+    default?: T;
+    min?: number;                 // integer and number settings
+    max?: number;
+    values?: readonly string[];   // enum settings
+    secret?: boolean;             // Never shown in diagnostics or error messages
+    sensitive?: boolean;          // Describes the deployment; diagnostics only shows whether it is set
+}
+
+type SettingOptions<T> = Pick<Setting<T>, 'default' | 'min' | 'max' | 'secret' | 'sensitive'>;
+
+function string(description: string, options: SettingOptions<string> = {}): Setting<string> {
+    return { type: 'string', description, ...options };
+}
+
+function integer(description: string, options: SettingOptions<number> = {}): Setting<number> {
+    return { type: 'integer', description, ...options };
+}
+
+function number(description: string, options: SettingOptions<number> = {}): Setting<number> {
+    return { type: 'number', description, ...options };
+}
+
+function boolean(description: string, options: SettingOptions<boolean> = {}): Setting<boolean> {
+    return { type: 'boolean', description, ...options };
+}
+
+function oneOf<T extends string>(values: readonly T[], description: string, options: SettingOptions<T> = {}): Setting<T> {
+    return { type: 'enum', description, values, ...options };
+}
+
+function url(description: string, options: SettingOptions<string> = {}): Setting<string> {
+    return { type: 'url', description, ...options };
+}
+
+// JSON settings are only checked for syntax here; the owning service validates their shape
+function json(description: string, options: SettingOptions<string> = {}): Setting<string> {
+    return { type: 'json', description, ...options };
+}
+
+export const SETTINGS = {
+    // Azure OpenAI
+    AZURE_OPENAI_ENDPOINT: url('Azure OpenAI endpoint used when no endpoint pool is configured', { sensitive: true }),
+    AZURE_OPENAI_API_KEY: string('Azure OpenAI API key, for development without Key Vault', { secret: true }),
+    AZURE_OPENAI_API_KEY_SECRET_NAME: string('Key Vault secret holding the Azure OpenAI API key', { default: 'azure-openai-api-key' }),
+    AZURE_OPENAI_ENDPOINTS: json('Pool of endpoints for load balancing and failover'),
+    AOAI_LOAD_BALANCING: oneOf(['round-robin', 'weighted'] as const, 'How requests are spread over the endpoint pool', { default: 'round-robin' }),
+    AOAI_ENDPOINT_COOLDOWN_MS: integer('How long a failing endpoint is skipped', { default: 10000, min: 0 }),
+    AOAI_DEPLOYMENTS: json('Deployment allowlist and aliases'),
+
+    // openai/config route
+    OPENAI_CONFIG_MODE: oneOf(['key', 'token'] as const, 'What openai/config returns: the raw Azure OpenAI key, or a short-lived proxy token', { default: 'key' }),
+    PROXY_TOKEN_TTL_SECONDS: integer('Lifetime of proxy tokens', { default: 15 * 60, min: 60, max: 24 * 60 * 60 }),
+    PROXY_TOKEN_SIGNING_KEY: string('Key that signs proxy tokens, used when Key Vault is not configured or unavailable', { secret: true }),
+    PROXY_TOKEN_SIGNING_KEY_SECRET_NAME: string('Key Vault secret holding the proxy token signing key', { default: 'proxy-token-signing-key' }),
+
+    // Secret providers and Key Vault
+    SECRET_PROVIDERS: string('Comma-separated order in which secret providers are asked: keyvault, env, file', { default: 'keyvault,env' }),
+    SECRET_FILE: string('JSON or .env file read by the file secret provider', { default: 'local.secrets.json' }),
+    KEY_VAULT_URL: url('Key Vault holding the API keys and connection strings', { sensitive: true }),
+    SECRET_CACHE_TTL_MS: integer('How long a Key Vault secret is used before it is fetched again', { default: 15 * 60 * 1000, min: 1000 }),
+    SECRET_CACHE_REFRESH_AHEAD_MS: integer('Refresh a secret in the background this long before expiry', { default: 60 * 1000, min: 0 }),
+    SECRET_CACHE_MAX_STALE_MS: integer('How long after its fetch a secret may be served while Key Vault is failing', { default: 4 * 60 * 60 * 1000, min: 0 }),
+    SECRET_CACHE_RETRY_MS: integer('Wait between refresh attempts while Key Vault is failing', { default: 30 * 1000, min: 1000 }),
+
+    // Shared state and idempotency
+    STATE_STORE: oneOf(['memory', 'blob'] as const, 'Where rate limit buckets and idempotency keys are kept', { default: 'memory' }),
+    STATE_STORE_CONTAINER: string('Blob container used by the blob state store', { default: 'proxy-state' }),
+    IDEMPOTENCY_TTL_MS: integer('How long a completed response is replayed for its Idempotency-Key', { default: 5 * 60 * 1000, min: 1000 }),
+    IDEMPOTENCY_PENDING_TTL_MS: integer('How long an in-flight Idempotency-Key blocks duplicates', { default: 2 * 60 * 1000, min: 1000 }),
+    IDEMPOTENCY_WAIT_TIMEOUT_MS: integer('How long a duplicate waits for the original request', { default: 60 * 1000, min: 0 }),
+
+    // Rate limits and quotas
+    RATE_LIMIT_GLOBAL_RPS: number('Global requests per second', { default: 8, min: 0.01 }),
+    RATE_LIMIT_USER_RPS: number('Requests per second per user', { default: 2, min: 0.01 }),
+    RATE_LIMIT_GLOBAL_TPM: integer('Global tokens per minute (0 disables)', { default: 0, min: 0 }),
+    RATE_LIMIT_USER_TPM: integer('Tokens per minute per user (0 disables)', { default: 0, min: 0 }),
+    QUOTA_DAILY_TOKENS: integer('Tokens per user per UTC day (0 is unlimited)', { default: 0, min: 0 }),
+    QUOTA_MONTHLY_TOKENS: integer('Tokens per user per UTC month (0 is unlimited)', { default: 0, min: 0 }),
+    QUOTA_USER_OVERRIDES: json('Per-user quota overrides'),
+    TOKEN_ESTIMATE_DEFAULT_COMPLETION: integer('Completion tokens reserved when max_tokens is not set', { default: 1000, min: 1 }),
+
+    // CORS
+    ALLOWED_ORIGINS: string('Comma-separated origins allowed to call the functions', { default: 'http://localhost:3000,https://localhost:3000', sensitive: true }),
+    CORS_MAX_AGE_SECONDS: integer('How long browsers may cache a preflight result', { default: 600, min: 0, max: 86400 }),
+
+    // Authentication
+    AUTH_MODE: oneOf(['jwt', 'none'] as const, 'Caller authentication (default: jwt when AUTH_JWKS_URI is set, otherwise none)'),
+    // Not a url setting: JwksKeySource also reads file:// URLs and local paths
+    AUTH_JWKS_URI: string('JWKS used to verify bearer tokens: an http(s) URL, a file:// URL or a local path', { sensitive: true }),
+    AUTH_ISSUER: string('Comma-separated accepted token issuers', { sensitive: true }),
+    AUTH_AUDIENCE: string('Comma-separated accepted token audiences', { sensitive: true }),
+    AUTH_ALGORITHMS: string('Comma-separated accepted signing algorithms', { default: 'RS256' }),
+    AUTH_USER_CLAIM: string('Token claim used as the user ID', { default: 'sub' }),
+    AUTH_CLOCK_TOLERANCE_SECONDS: integer('Allowed clock skew when checking token times', { default: 60, min: 0, max: 600 }),
+    AUTH_JWKS_CACHE_MS: integer('How long signing keys are cached', { default: 10 * 60 * 1000, min: 0 }),
+    API_KEYS_CONTAINER: string('Blob container holding proxy API key records', { default: 'proxy-api-keys' }),
+    API_KEY_CACHE_MS: integer('How long API key records are cached', { default: 60 * 1000, min: 0 }),
+
+    // Prompt templates
+    PROMPT_TEMPLATES_CONTAINER: string('Blob container holding published prompt templates', { default: 'prompt-templates' }),
+    PROMPT_TEMPLATE_CACHE_MS: integer('How long the latest version of a template is cached', { default: 60 * 1000, min: 0 }),
+
+    // Usage reporting
+    USAGE_PRICES: json('Price per 1K tokens by deployment'),
+    USAGE_CURRENCY: string('Currency of the price table', { default: 'USD' }),
+    USAGE_RETENTION_DAYS: integer('Days of usage aggregates kept', { default: 400, min: 1 }),
+    USAGE_MAX_REPORT_DAYS: integer('Longest date range one usage report may cover', { default: 92, min: 1 }),
+
+    // Response cache
+    RESPONSE_CACHE_ENABLED: boolean('Cache deterministic chat completions', { default: false }),
+    RESPONSE_CACHE_TTL_MS: integer('How long a cached response is served', { default: 60 * 60 * 1000, min: 1000 }),
+    RESPONSE_CACHE_MAX_ENTRIES: integer('Most responses kept in the cache', { default: 500, min: 1 }),
+    RESPONSE_CACHE_MAX_ENTRY_BYTES: integer('Largest response that is cached', { default: 256 * 1024, min: 1 }),
+
+    // Concurrency
+    MAX_PARALLEL_AOAI: integer('Concurrent Azure OpenAI calls per instance', { default: 8, min: 1, max: 1000 }),
+    AOAI_INTERACTIVE_WEIGHT: integer('Interactive requests served per queued batch request', { default: 4, min: 1 }),
+    AOAI_MAX_QUEUE_DEPTH: integer('Waiting requests beyond this depth get 503', { default: 100, min: 0 }),
+    AOAI_ACQUIRE_TIMEOUT_MS: integer('How long a request may wait for a concurrency permit', { default: 30000, min: 0 }),
+
+    // Retries
+    AOAI_MAX_RETRIES: integer('Attempts of an Azure OpenAI call, the first included', { default: 6, min: 1, max: 20 }),
+    AOAI_BASE_DELAY_MS: integer('Base delay of the exponential backoff', { default: 500, min: 0 }),
+    AOAI_MAX_DELAY_MS: integer('Longest single backoff delay', { default: 15000, min: 0 }),
+
+    // Deadline budget
+    AOAI_REQUEST_TIMEOUT_MS: integer('Default end-to-end deadline of a proxied request', { default: 60000, min: 1000 }),
+    AOAI_MIN_REQUEST_TIMEOUT_MS: integer('Shortest deadline a client may ask for', { default: 5000, min: 1000 }),
+    AOAI_MAX_REQUEST_TIMEOUT_MS: integer('Longest deadline a client may ask for', { default: 120000, min: 1000 }),
+    AOAI_ATTEMPT_TIMEOUT_MS: integer('Longest single upstream attempt', { default: 30000, min: 1000 }),
+    AOAI_STREAM_IDLE_TIMEOUT_MS: integer('Longest gap between upstream events of an open stream', { default: 30000, min: 1000 }),
+
+    // Circuit breaker
+    AOAI_CIRCUIT_FAILURE_THRESHOLD: integer('Consecutive failures that open the circuit', { default: 5, min: 1 }),
+    AOAI_CIRCUIT_OPEN_MS: integer('How long the circuit stays open', { default: 30000, min: 1000 }),
+    AOAI_CIRCUIT_HALF_OPEN_PROBES: integer('Trial requests let through while half-open', { default: 1, min: 1 }),
+
+    // Request validation
+    VALIDATION_MAX_MESSAGES: integer('Messages per chat request', { default: 50, min: 1 }),
+    VALIDATION_MAX_MESSAGE_LENGTH: integer('Characters per message', { default: 4000, min: 1 }),
+    VALIDATION_MAX_TOKENS: integer('Largest max_tokens a request may ask for', { default: 4000, min: 1 }),
+    VALIDATION_MAX_EMBEDDING_INPUTS: integer('Inputs per embeddings request', { default: 64, min: 1 }),
+    VALIDATION_MAX_EMBEDDING_INPUT_LENGTH: integer('Characters per embeddings input', { default: 8000, min: 1 }),
+    VALIDATION_MAX_TOOLS: integer('Tools per chat request', { default: 32, min: 0 }),
+    VALIDATION_MAX_TOOL_DEFINITION_LENGTH: integer('Characters per serialized tool definition', { default: 8000, min: 1 }),
+    VALIDATION_MAX_IMAGES: integer('Images per chat request', { default: 10, min: 0 }),
+    VALIDATION_MAX_IMAGE_BYTES: integer('Bytes per image', { default: 5 * 1024 * 1024, min: 1 }),
+    VALIDATION_MAX_IMAGE_PAYLOAD_BYTES: integer('Bytes of images per request', { default: 20 * 1024 * 1024, min: 1 }),
+
+    // Blob Storage
+    AZURE_STORAGE_CONNECTION_STRING: string('Storage account connection string', { secret: true }),
+    AZURE_STORAGE_ACCOUNT_NAME: string('Storage account name, for account key or managed identity access', { sensitive: true }),
+    AZURE_STORAGE_ACCOUNT_KEY: string('Storage account key', { secret: true }),
+    AZURE_BLOB_CONTAINER_NAME: string('Blob container served by the blob proxy', { default: 'documents' }),
+    IMAGE_BLOB_PREFIX: string('Blob name prefix image_blob parts must use; {userId} is replaced by the caller', { default: 'images/{userId}/' }),
+
+    // Runtime
+    FUNCTIONS_WORKER_RUNTIME: string('Azure Functions worker runtime')
+};
+
+export type SettingName = keyof typeof SETTINGS;
+
+export type AppConfig = {
+    readonly [K in SettingName]: typeof SETTINGS[K] extends Setting<infer T> ? T : never;
+};
+
+/**
+ * Thrown at startup when one or more settings are invalid
+ */
+export class ConfigError extends Error {
+    constructor(public problems: string[]) {
+        super(`Invalid configuration: ${problems.join('; ')}`);
+    }
+}
+
+// Settings that are valid alone but not together
+const SECRET_PROVIDER_NAMES = ['keyvault', 'env', 'file'];
+
+/**
+ * The configured secret provider order, lower-cased and without blanks
+ */
+export function secretProviderOrder(config: AppConfig): string[] {
+    return config.SECRET_PROVIDERS.split(',').map(name => name.trim().toLowerCase()).filter(Boolean);
+}
+
+const CONSISTENCY_CHECKS: ((config: AppConfig) => string | undefined)[] = [
+    config => config.AOAI_MIN_REQUEST_TIMEOUT_MS <= config.AOAI_REQUEST_TIMEOUT_MS && config.AOAI_REQUEST_TIMEOUT_MS <= config.AOAI_MAX_REQUEST_TIMEOUT_MS
+        ? undefined
+        : 'AOAI_REQUEST_TIMEOUT_MS must be between AOAI_MIN_REQUEST_TIMEOUT_MS and AOAI_MAX_REQUEST_TIMEOUT_MS',
+    config => config.AOAI_BASE_DELAY_MS <= config.AOAI_MAX_DELAY_MS
+        ? undefined
+        : 'AOAI_BASE_DELAY_MS must not exceed AOAI_MAX_DELAY_MS',
+    config => config.SECRET_CACHE_REFRESH_AHEAD_MS < config.SECRET_CACHE_TTL_MS
+        ? undefined
+        : 'SECRET_CACHE_REFRESH_AHEAD_MS must be less than SECRET_CACHE_TTL_MS',
+    config => {
+        const order = secretProviderOrder(config);
+        const unknown = order.filter(name => !SECRET_PROVIDER_NAMES.includes(name));
+        if (unknown.length > 0) {
+            return `SECRET_PROVIDERS must only list ${SECRET_PROVIDER_NAMES.join(', ')}, got "${unknown.join(', ')}"`;
+        }
+        if (order.length === 0 || new Set(order).size !== order.length) {
+            return 'SECRET_PROVIDERS must list at least one provider, each at most once';
+        }
+        return undefined;
+    },
+    config => config.OPENAI_CONFIG_MODE !== 'token' || config.KEY_VAULT_URL || config.PROXY_TOKEN_SIGNING_KEY || secretProviderOrder(config).includes('file')
+        ? undefined
+        : 'OPENAI_CONFIG_MODE=token requires KEY_VAULT_URL, PROXY_TOKEN_SIGNING_KEY or the file secret provider',
+    config => !config.PROXY_TOKEN_SIGNING_KEY || config.PROXY_TOKEN_SIGNING_KEY.length >= 32
+        ? undefined
+        : 'PROXY_TOKEN_SIGNING_KEY must be at least 32 characters'
+];
+
+function parseValue(setting: Setting<any>, raw: string): any {
+    switch (setting.type) {
+        case 'integer':
+        case 'number': {
+            const value = Number(raw);
+            if (!Number.isFinite(value) || (setting.type === 'integer' && !/^-?\d+$/.test(raw))) {
+                throw new Error(`must be ${setting.type === 'integer' ? 'an integer' : 'a number'}`);
+            }
+            if (setting.min !== undefined && value < setting.min) {
+                throw new Error(`must be at least ${setting.min}`);
+            }
+            if (setting.max !== undefined && value > setting.max) {
+                throw new Error(`must be at most ${setting.max}`);
+            }
+            return value;
+        }
+        case 'boolean':
+            if (raw !== 'true' && raw !== 'false') {
+                throw new Error('must be "true" or "false"');
+            }
+            return raw === 'true';
+        case 'enum':
+            if (!setting.values!.includes(raw)) {
+                throw new Error(`must be one of ${setting.values!.join(', ')}`);
+            }
+            return raw;
+        case 'url': {
+            let protocol: string;
+            try {
+                protocol = new URL(raw).protocol;
+            } catch {
+                throw new Error('must be an absolute URL');
+            }
+            if (protocol !== 'https:' && protocol !== 'http:') {
+                throw new Error('must be an http or https URL');
+            }
+            return raw;
+        }
+        case 'json':
+            try {
+                JSON.parse(raw);
+            } catch (error: any) {
+                throw new Error(`must be valid JSON (${error.message})`);
+            }
+            return raw;
+        default:
+            return raw;
+    }
+}
+
+/**
+ * Parse every setting from the environment; unset or blank variables take their default
+ * Throws a ConfigError naming every invalid setting, never echoing secret values
+ */
+export function loadConfig(env: Record<string, string | undefined> = process.env): AppConfig {
+    const values: Record<string, any> = {};
+    const problems: string[] = [];
+
+    for (const [name, setting] of Object.entries(SETTINGS) as [string, Setting<any>][]) {
+        const raw = env[name]?.trim();
+        if (!raw) {
+            values[name] = setting.default;
+            continue;
+        }
+
+        try {
+            values[name] = parseValue(setting, raw);
+        } catch (error: any) {
+            // Secrets are never echoed, and JSON documents are too long to be useful in the message
+            problems.push(setting.secret || setting.type === 'json' ? `${name} ${error.message}` : `${name} ${error.message}, got "${raw}"`);
+        }
+    }
+
+    if (problems.length === 0) {
+        for (const check of CONSISTENCY_CHECKS) {
+            const problem = check(values as AppConfig);
+            if (problem) {
+                problems.push(problem);
+            }
+        }
+    }
+
+    if (problems.length > 0) {
+        throw new ConfigError(problems);
+    }
+    return Object.freeze(values) as AppConfig;
+}
+
+/**
+ * Describe each setting for diagnostics: its value, its default when unset, or only
+ * whether it is set for secrets, sensitive settings and JSON documents
+ */
+export function configReport(env: Record<string, string | undefined> = process.env, current: AppConfig = config): Record<string, string> {
+    const report: Record<string, string> = {};
+    for (const [name, setting] of Object.entries(SETTINGS) as [string, Setting<any>][]) {
+        const isSet = !!env[name]?.trim();
+        if (setting.secret || setting.sensitive || setting.type === 'json') {
+            report[name] = isSet ? 'SET' : 'NOT SET';
+        } else if (isSet) {
+            report[name] = String(current[name as SettingName]);
+        } else {
+            report[name] = setting.default !== undefined ? `${setting.default} (default)` : 'NOT SET';
+        }
+    }
+    return report;
+}
+
+function loadStartupConfig(): AppConfig {
+    try {
+        return loadConfig();
+    } catch (error: any) {
+        new Logger().error('Invalid configuration', { error: error.message });
+        throw error;
+    }
+}
+
+// Loaded once at startup; an invalid setting fails the host before any request is served
+export const config: AppConfig = loadStartupConfig();
@@ -0,0 +1,117 @@
+/**
+ * Shared CORS handling for every function
+ * Origins are checked against the ALLOWED_ORIGINS allowlist (exact origins and
+ * wildcard subdomains such as https://*.example.com); only an allowed origin is
+ * echoed back, so credentials are never shared with arbitrary sites.
+ */
+
+import { HttpResponseInit } from '@azure/functions';
+import { config } from './config';
+
+export interface CorsOptions {
+    methods: string[];
+    allowHeaders?: string[];
+    exposeHeaders?: string[];
+}
+
+const DEFAULT_ALLOW_HEADERS = ['Content-Type', 'Authorization'];
+
+function escapeRegExp(value: string): string {
+    return value.replace(/[.+?^${}()|[\]\\]/g, '\\$&');
+}
+
+export class CorsPolicy {
+    private exact = new Set<string>();
+    private wildcards: RegExp[] = [];
+    private allowAny = false;
+
+    /**
+     * @param allowedOrigins Exact origins, wildcard subdomain patterns, or "*" for any origin without credentials
+     * @param maxAgeSeconds How long browsers may cache a preflight result
+     */
+    constructor(allowedOrigins: string[], private maxAgeSeconds: number = 600) {
+        for (const entry of allowedOrigins.map(origin => origin.trim().replace(/\/+$/, '').toLowerCase()).filter(Boolean)) {
+            if (entry === '*') {
+                this.allowAny = true;
+            } else if (entry.includes('://*.')) {
+                // https://*.example.com matches any depth of subdomain, but not example.com itself
+                const [scheme, host] = entry.split('://*.');
+                this.wildcards.push(new RegExp(`^${escapeRegExp(scheme)}://[a-z0-9-]+(\\.[a-z0-9-]+)*\\.${escapeRegExp(host)}$`));
+            } else {
+                this.exact.add(entry);
+            }
+        }
+    }
+
+    static fromEnvironment(): CorsPolicy {
+        return new CorsPolicy(
+            config.ALLOWED_ORIGINS.split(','),
+            config.CORS_MAX_AGE_SECONDS
+        );
+    }
+
+    isAllowed(origin: string): boolean {
+        return this.allowAny || this.isListed(origin);
+    }
+
+    // Explicitly listed, exactly or through a wildcard, as opposed to allowed through "*"
+    private isListed(origin: string): boolean {
+        const normalized = origin.toLowerCase();
+        return this.exact.has(normalized) || this.wildcards.some(pattern => pattern.test(normalized));
+    }
+
+    /**
+     * CORS headers for a response to the given origin; only Vary when the origin is not allowed
+     */
+    headersFor(origin: string | null, options: CorsOptions): Record<string, string> {
+        if (!origin || !this.isAllowed(origin)) {
+            return { 'Vary': 'Origin' };
+        }
+
+        const headers: Record<string, string> = { 'Vary': 'Origin' };
+        if (this.isListed(origin)) {
+            headers['Access-Control-Allow-Origin'] = origin;
+            headers['Access-Control-Allow-Credentials'] = 'true';
+        } else {
+            // Allowed only through "*": never combined with credentials
+            headers['Access-Control-Allow-Origin'] = '*';
+        }
+
+        if (options.exposeHeaders?.length) {
+            headers['Access-Control-Expose-Headers'] = options.exposeHeaders.join(', ');
+        }
+        return headers;
+    }
+
+    /**
+     * Answer a preflight request: 204 with the allowed methods and headers, or 403 for other origins
+     */
+    preflight(origin: string | null, options: CorsOptions): HttpResponseInit {
+        if (!origin || !this.isAllowed(origin)) {
+            return { status: 403, headers: { 'Vary': 'Origin' } };
+        }
+
+        return {
+            status: 204,
+            headers: {
+                ...this.headersFor(origin, options),
+                'Access-Control-Allow-Methods': options.methods.join(', '),
+                'Access-Control-Allow-Headers': (options.allowHeaders || DEFAULT_ALLOW_HEADERS).join(', '),
+                'Access-Control-Max-Age': String(this.maxAgeSeconds)
+            }
+        };
+    }
+
+    getStatus(): { allowAny: boolean; originCount: number; wildcardCount: number; maxAgeSeconds: number } {
+        return {
+            allowAny: this.allowAny,
+            originCount: this.exact.size,
+            wildcardCount: this.wildcards.length,
+            maxAgeSeconds: this.maxAgeSeconds
+        };
+    }
+}
+
+// Singleton instance
+export const corsPolicy = CorsPolicy.fromEnvironment();
+
@@ -0,0 +1,165 @@
+/**
+ * Server-side registry of Azure OpenAI deployments the proxy may call
+ * Maps friendly aliases to real deployment names and enforces per-deployment limits
+ */
+
+import { config } from './config';
+import { Logger } from './logger';
+
+export type DeploymentCapability = 'chat' | 'embeddings';
+
+export interface DeploymentDefinition {
+    name: string;                           // Real Azure OpenAI deployment name
+    aliases?: string[];                     // Friendly names clients may use instead, e.g. "fast"
+    apiVersion?: string;                    // Overrides the default api-version for this deployment
+    maxTokens?: number;                     // Upper bound for max_tokens; also used when the client omits it
+    capabilities?: DeploymentCapability[];  // Defaults to chat only
+}
+
+export interface ResolvedDeployment {
+    name: string;
+    requested: string;
+    apiVersion?: string;
+    maxTokens?: number;
+}
+
+export interface DeploymentResolution {
+    ok: boolean;
+    error?: string;
+    deployment?: ResolvedDeployment;
+}
+
+// Deployment names end up in the upstream URL path
+const DEPLOYMENT_NAME_PATTERN = /^[a-zA-Z0-9._-]{1,64}$/;
+
+export class DeploymentRegistry {
+    private byName = new Map<string, DeploymentDefinition>();
+
+    /**
+     * @param definitions Allowed deployments, or null to allow any well-formed deployment name
+     * @param configError Set when the configuration could not be parsed; every lookup is then rejected
+     */
+    constructor(private definitions: DeploymentDefinition[] | null, private configError?: string) {
+        for (const definition of definitions || []) {
+            this.byName.set(definition.name, definition);
+            for (const alias of definition.aliases || []) {
+                this.byName.set(alias, definition);
+            }
+        }
+    }
+
+    /**
+     * Build the registry from the AOAI_DEPLOYMENTS environment variable (JSON array of DeploymentDefinition)
+     */
+    static fromEnvironment(): DeploymentRegistry {
+        const raw = config.AOAI_DEPLOYMENTS;
+        if (!raw) {
+            return new DeploymentRegistry(null);
+        }
+
+        try {
+            return new DeploymentRegistry(DeploymentRegistry.parseDefinitions(JSON.parse(raw)));
+        } catch (error: any) {
+            new Logger().error('Invalid AOAI_DEPLOYMENTS configuration', { error: error.message });
+            return new DeploymentRegistry([], error.message);
+        }
+    }
+
+    private static parseDefinitions(value: any): DeploymentDefinition[] {
+        if (!Array.isArray(value)) {
+            throw new Error('expected a JSON array of deployments');
+        }
+
+        const seen = new Set<string>();
+        return value.map((entry: any, i: number) => {
+            if (!entry || typeof entry.name !== 'string' || !DEPLOYMENT_NAME_PATTERN.test(entry.name)) {
+                throw new Error(`deployment ${i} must have a valid name`);
+            }
+
+            const aliases: string[] = entry.aliases || [];
+            if (!Array.isArray(aliases) || aliases.some(alias => typeof alias !== 'string' || !DEPLOYMENT_NAME_PATTERN.test(alias))) {
+                throw new Error(`deployment ${entry.name} aliases must be valid names`);
+            }
+
+            for (const key of [entry.name, ...aliases]) {
+                if (seen.has(key)) {
+                    throw new Error(`name or alias ${key} is defined more than once`);
+                }
+                seen.add(key);
+            }
+
+            if (entry.maxTokens !== undefined && (!Number.isInteger(entry.maxTokens) || entry.maxTokens < 1)) {
+                throw new Error(`deployment ${entry.name} maxTokens must be a positive integer`);
+            }
+
+            const capabilities: DeploymentCapability[] = entry.capabilities || ['chat'];
+            if (!Array.isArray(capabilities) || capabilities.some(c => c !== 'chat' && c !== 'embeddings')) {
+                throw new Error(`deployment ${entry.name} capabilities must be chat and/or embeddings`);
+            }
+
+            return {
+                name: entry.name,
+                aliases,
+                apiVersion: typeof entry.apiVersion === 'string' ? entry.apiVersion : undefined,
+                maxTokens: entry.maxTokens,
+                capabilities
+            };
+        });
+    }
+
+    /**
+     * Resolve a client-supplied deployment name or alias for the given operation
+     */
+    resolve(requested: any, capability: DeploymentCapability): DeploymentResolution {
+        if (this.configError) {
+            return { ok: false, error: 'Deployment configuration is invalid' };
+        }
+
+        if (typeof requested !== 'string' || !DEPLOYMENT_NAME_PATTERN.test(requested)) {
+            return { ok: false, error: 'Deployment name is invalid' };
+        }
+
+        // No allowlist configured: pass the name through unchanged
+        if (!this.definitions) {
+            return { ok: true, deployment: { name: requested, requested } };
+        }
+
+        const definition = this.byName.get(requested);
+        if (!definition) {
+            return { ok: false, error: `Deployment ${requested} is not available` };
+        }
+
+        if (!definition.capabilities!.includes(capability)) {
+            return { ok: false, error: `Deployment ${requested} does not support ${capability}` };
+        }
+
+        return {
+            ok: true,
+            deployment: {
+                name: definition.name,
+                requested,
+                apiVersion: definition.apiVersion,
+                maxTokens: definition.maxTokens
+            }
+        };
+    }
+
+    /**
+     * Get current status for debugging
+     */
+    getStatus(): { mode: 'allowlist' | 'open' | 'invalid'; error?: string; deploymentCount: number; aliasCount: number } {
+        if (this.configError) {
+            return { mode: 'invalid', error: this.configError, deploymentCount: 0, aliasCount: 0 };
+        }
+
+        const definitions = this.definitions || [];
+        return {
+            mode: this.definitions ? 'allowlist' : 'open',
+            deploymentCount: definitions.length,
+            aliasCount: definitions.reduce((count, definition) => count + (definition.aliases?.length || 0), 0)
+        };
+    }
+}
+
+// Singleton instance
+export const deploymentRegistry = DeploymentRegistry.fromEnvironment();
@@ -0,0 +1,182 @@
+/**
+ * Load balancing and failover across multiple Azure OpenAI endpoints
+ * Tracks endpoint health across requests so a throttled region is skipped until it recovers
+ */
+
+import { OpenAIConfig } from '../types';
+import { config } from './config';
+
+export type LoadBalancingStrategy = 'round-robin' | 'weighted';
+
+// Entry of the AZURE_OPENAI_ENDPOINTS JSON array
+export interface EndpointDefinition {
+    name: string;
+    endpoint: string;
+    weight?: number;
+    apiKeySecretName?: string;  // Key Vault secret holding this endpoint's key
+    apiKeyEnv?: string;         // Environment variable holding this endpoint's key
+}
+
+interface EndpointState {
+    currentWeight: number;
+    cooldownUntil: number; // timestamp in ms, 0 when healthy
+    failures: number;
+    successes: number;
+    lastError?: string;
+}
+
+export class EndpointPool {
+    private states = new Map<string, EndpointState>();
+
+    constructor(
+        private strategy: LoadBalancingStrategy = 'round-robin',
+        private cooldownMs: number = 10000
+    ) {}
+
+    /**
+     * Parse endpoint definitions from configuration
+     */
+    static parseDefinitions(raw: string): EndpointDefinition[] {
+        const value = JSON.parse(raw);
+        if (!Array.isArray(value) || value.length === 0) {
+            throw new Error('AZURE_OPENAI_ENDPOINTS must be a non-empty JSON array');
+        }
+
+        const names = new Set<string>();
+        return value.map((entry: any, i: number) => {
+            if (!entry || typeof entry.endpoint !== 'string' || !entry.endpoint.startsWith('https://')) {
+                throw new Error(`Endpoint ${i} must have an https endpoint URL`);
+            }
+            if (!entry.apiKeySecretName && !entry.apiKeyEnv) {
+                throw new Error(`Endpoint ${i} must set apiKeySecretName or apiKeyEnv`);
+            }
+            if (entry.weight !== undefined && (typeof entry.weight !== 'number' || entry.weight <= 0)) {
+                throw new Error(`Endpoint ${i} weight must be a positive number`);
+            }
+
+            const name = typeof entry.name === 'string' ? entry.name : `endpoint-${i}`;
+            if (names.has(name)) {
+                throw new Error(`Endpoint name ${name} is used more than once`);
+            }
+            names.add(name);
+
+            return {
+                name,
+                endpoint: entry.endpoint.replace(/\/+$/, ''),
+                weight: entry.weight,
+                apiKeySecretName: entry.apiKeySecretName,
+                apiKeyEnv: entry.apiKeyEnv
+            };
+        });
+    }
+
+    /**
+     * Pick the next endpoint for an attempt, skipping endpoints already tried
+     * by this request and preferring those that are not cooling down
+     */
+    select(endpoints: OpenAIConfig[], tried: Set<string>): OpenAIConfig {
+        const untried = endpoints.filter(e => !tried.has(this.keyOf(e)));
+        const pool = untried.length > 0 ? untried : endpoints;
+
+        const now = Date.now();
+        const healthy = pool.filter(e => this.getState(e).cooldownUntil <= now);
+
+        if (healthy.length === 0) {
+            // Everything is cooling down: use the endpoint that recovers first
+            return pool.reduce((best, e) =>
+                this.getState(e).cooldownUntil < this.getState(best).cooldownUntil ? e : best);
+        }
+
+        // Smooth weighted round-robin; with equal weights this is plain round-robin
+        let total = 0;
+        let chosen = healthy[0];
+        for (const endpoint of healthy) {
+            const weight = this.weightOf(endpoint);
+            const state = this.getState(endpoint);
+            state.currentWeight += weight;
+            total += weight;
+            if (state.currentWeight > this.getState(chosen).currentWeight) {
+                chosen = endpoint;
+            }
+        }
+        this.getState(chosen).currentWeight -= total;
+
+        return chosen;
+    }
+
+    /**
+     * Whether another endpoint not yet tried by this request can take the next attempt
+     */
+    hasFailoverTarget(endpoints: OpenAIConfig[], tried: Set<string>): boolean {
+        const now = Date.now();
+        return endpoints.some(e => !tried.has(this.keyOf(e)) && this.getState(e).cooldownUntil <= now);
+    }
+
+    reportSuccess(endpoint: OpenAIConfig): void {
+        const state = this.getState(endpoint);
+        state.successes++;
+        state.cooldownUntil = 0;
+    }
+
+    /**
+     * Put an endpoint into cooldown after a throttling, server or network error
+     * @param retryAfterSeconds Upstream Retry-After, used instead of the default cooldown when present
+     */
+    reportFailure(endpoint: OpenAIConfig, error: string, retryAfterSeconds?: number): void {
+        const state = this.getState(endpoint);
+        state.failures++;
+        state.lastError = error.slice(0, 200);
+        state.cooldownUntil = Date.now() + (retryAfterSeconds ? retryAfterSeconds * 1000 : this.cooldownMs);
+    }
+
+    // Endpoints are known by their configured name, so diagnostics never shows the resource URL
+    keyOf(endpoint: OpenAIConfig): string {
+        return endpoint.name || 'default';
+    }
+
+    private weightOf(endpoint: OpenAIConfig): number {
+        return this.strategy === 'weighted' ? (endpoint.weight || 1) : 1;
+    }
+
+    private getState(endpoint: OpenAIConfig): EndpointState {
+        const key = this.keyOf(endpoint);
+        let state = this.states.get(key);
+
+        if (!state) {
+            state = { currentWeight: 0, cooldownUntil: 0, failures: 0, successes: 0 };
+            this.states.set(key, state);
+        }
+
+        return state;
+    }
+
+    /**
+     * Get current status for monitoring
+     */
+    getStatus(): { strategy: LoadBalancingStrategy; cooldownMs: number; endpoints: Record<string, any> } {
+        const now = Date.now();
+        const endpoints: Record<string, any> = {};
+
+        for (const [key, state] of this.states.entries()) {
+            endpoints[key] = {
+                healthy: state.cooldownUntil <= now,
+                cooldownRemainingMs: Math.max(0, state.cooldownUntil - now),
+                successes: state.successes,
+                failures: state.failures,
+                lastError: state.lastError
+            };
+        }
+
+        return {
+            strategy: this.strategy,
+            cooldownMs: this.cooldownMs,
+            endpoints
+        };
+    }
+}
+
+// Singleton instance shared by all requests in this instance
+export const endpointPool = new EndpointPool(
+    config.AOAI_LOAD_BALANCING,
+    config.AOAI_ENDPOINT_COOLDOWN_MS
+);
@@ -0,0 +1,136 @@
+/**
+ * Idempotency keys for the OpenAI proxy
+ * Keys are scoped per user and bound to a hash of the request body. The first
+ * request with a key claims it; concurrent requests with the same key wait for
+ * that request to finish and then replay its response instead of calling upstream.
+ */
+
+import { createHash } from 'crypto';
+import { ApiResponse } from '../types';
+import { StateStore, stateStore } from './stateStore';
+import { config } from './config';
+
+interface IdempotencyRecord {
+    state: 'pending' | 'completed';
+    bodyHash: string;
+    requestId: string;
+    response?: ApiResponse;
+}
+
+export type IdempotencyClaim =
+    // This request owns the key: complete() stores the response, release() gives the key up
+    | { outcome: 'acquired'; complete(response: ApiResponse): Promise<void>; release(): Promise<void> }
+    | { outcome: 'replay'; response: ApiResponse }
+    | { outcome: 'conflict' }   // Key was used with a different request body
+    | { outcome: 'timeout' };   // Still in progress after waiting
+
+export class IdempotencyManager {
+    // Requests owning a key in this instance; waiters here are woken without polling
+    private inFlight = new Map<string, Promise<void>>();
+
+    /**
+     * @param ttlMs How long completed responses are replayed
+     * @param pendingTtlMs Lease on an in-progress key, so a crashed owner does not block it forever
+     * @param waitTimeoutMs How long a duplicate waits for the owner before giving up
+     * @param pollIntervalMs Poll interval while the owner runs on another instance
+     */
+    constructor(
+        private ttlMs: number = 5 * 60 * 1000,
+        private pendingTtlMs: number = 2 * 60 * 1000,
+        private waitTimeoutMs: number = 60 * 1000,
+        private pollIntervalMs: number = 250,
+        private store: StateStore = stateStore
+    ) {}
+
+    /**
+     * Hash of the request body the key is bound to
+     */
+    static hashBody(body: any): string {
+        return createHash('sha256').update(JSON.stringify(body)).digest('hex');
+    }
+
+    /**
+     * Claim a key for a request, waiting while another request with the same key is in progress
+     */
+    async claim(userId: string, key: string, bodyHash: string, requestId: string): Promise<IdempotencyClaim> {
+        const stateKey = `idempotency:${userId}:${encodeURIComponent(key)}`;
+        const deadline = Date.now() + this.waitTimeoutMs;
+
+        while (true) {
+            const outcome = await this.store.update<IdempotencyRecord, 'acquired' | 'replay' | 'conflict' | 'pending'>(stateKey, (current) => {
+                if (!current) {
+                    return { value: { state: 'pending', bodyHash, requestId }, result: 'acquired' };
+                }
+                if (current.bodyHash !== bodyHash) {
+                    return { result: 'conflict' };
+                }
+                return { result: current.state === 'completed' ? 'replay' : 'pending' };
+            }, this.pendingTtlMs);
+
+            if (outcome === 'acquired') {
+                return this.acquired(stateKey, bodyHash, requestId);
+            }
+            if (outcome === 'conflict') {
+                return { outcome: 'conflict' };
+            }
+            if (outcome === 'replay') {
+                const record = await this.store.get<IdempotencyRecord>(stateKey);
+                if (record?.value.state === 'completed' && record.value.response) {
+                    return { outcome: 'replay', response: record.value.response };
+                }
+                continue; // Expired or released in between: try to claim it
+            }
+
+            const remainingMs = deadline - Date.now();
+            if (remainingMs <= 0) {
+                return { outcome: 'timeout' };
+            }
+
+            // Wake up when a local owner finishes, otherwise poll the shared store
+            const waitMs = Math.min(remainingMs, this.pollIntervalMs);
+            const local = this.inFlight.get(stateKey);
+            let timer: NodeJS.Timeout;
+            await Promise.race([
+                ...(local ? [local] : []),
+                new Promise(resolve => { timer = setTimeout(resolve, local ? remainingMs : waitMs); })
+            ]);
+            clearTimeout(timer!);
+        }
+    }
+
+    private acquired(stateKey: string, bodyHash: string, requestId: string): IdempotencyClaim {
+        let done = false;
+        let signalDone: () => void;
+        this.inFlight.set(stateKey, new Promise<void>(resolve => { signalDone = resolve; }));
+
+        const finish = async (write: () => Promise<unknown>) => {
+            if (done) {
+                return;
+            }
+            done = true;
+
+            try {
+                await write();
+            } finally {
+                this.inFlight.delete(stateKey);
+                signalDone();
+            }
+        };
+
+        return {
+            outcome: 'acquired',
+            complete: (response: ApiResponse) => finish(() => this.store.set<IdempotencyRecord>(stateKey,
+                { state: 'completed', bodyHash, requestId, response },
+                { ttlMs: this.ttlMs })),
+            // Failed requests are not remembered, so a waiting or later retry runs the request itself
+            release: () => finish(() => this.store.delete(stateKey))
+        };
+    }
+}
+
+// Singleton instance
+export const idempotencyManager = new IdempotencyManager(
+    config.IDEMPOTENCY_TTL_MS,
+    config.IDEMPOTENCY_PENDING_TTL_MS,
+    config.IDEMPOTENCY_WAIT_TIMEOUT_MS
+);
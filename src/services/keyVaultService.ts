@@ -1,14 +1,24 @@
 import { SecretClient } from '@azure/keyvault-secrets';
 import { DefaultAzureCredential } from '@azure/identity';
+import { Logger } from './logger';
+
+/**
+ * The vault answered, but holds no secret by that name
+ */
+export class SecretNotFoundError extends Error {
+    constructor(public secretName: string) {
+        super(`Secret ${secretName} was not found in Key Vault`);
+    }
+}
 
 export class KeyVaultService {
     private client: SecretClient;
-    
+
     constructor(keyVaultUrl: string) {
         const credential = new DefaultAzureCredential();
         this.client = new SecretClient(keyVaultUrl, credential);
     }
-    
+
     async getSecret(secretName: string): Promise<string> {
         try {
             const secret = await this.client.getSecret(secretName);
@@ -17,7 +27,152 @@ export class KeyVaultService {
             }
             return secret.value;
         } catch (error) {
+            if (error.statusCode === 404) {
+                throw new SecretNotFoundError(secretName);
+            }
             throw new Error(`Failed to retrieve secret ${secretName}: ${error.message}`);
         }
     }
 }
+
+export interface SecretCacheOptions {
+    ttlMs: number;           // How long a fetched secret is used before it must be fetched again
+    refreshAheadMs: number;  // Refresh in the background this long before expiry
+    maxStaleMs: number;      // How long past its fetch a secret may be served while Key Vault is failing
+    retryMs: number;         // Wait between refresh attempts while Key Vault is failing
+}
+
+interface CachedSecret {
+    value: string;
+    fetchedAt: number;
+    expiresAt: number;
+    refreshAt: number;
+    lastError?: string;
+}
+
+/**
+ * Shared Key Vault secret cache
+ * Secrets are fetched once and reused until their TTL runs out, refreshed in the
+ * background shortly before that, and the last good value keeps being served for
+ * a while if Key Vault is unavailable. Callers invalidate a secret when the
+ * service it unlocks rejects it, so a rotated key is picked up on the next call.
+ */
+export class SecretCache {
+    private entries = new Map<string, CachedSecret>();
+    private inFlight = new Map<string, Promise<string>>();
+    private metrics = { hits: 0, fetches: 0, failures: 0, staleServed: 0, invalidations: 0 };
+    private logger = new Logger();
+
+    constructor(private keyVault: KeyVaultService, private options: SecretCacheOptions) {}
+
+    /**
+     * Get a secret, fetching it only when it is missing, invalidated or past its stale limit
+     */
+    async getSecret(secretName: string): Promise<string> {
+        const now = Date.now();
+        const entry = this.entries.get(secretName);
+
+        if (entry && now < entry.expiresAt) {
+            this.metrics.hits++;
+            if (now >= entry.refreshAt) {
+                // Failures are recorded on the entry; the current value stays in use
+                this.refresh(secretName).catch(() => undefined);
+            }
+            if (now >= entry.fetchedAt + this.options.ttlMs) {
+                this.metrics.staleServed++;
+            }
+            return entry.value;
+        }
+
+        return this.refresh(secretName);
+    }
+
+    /**
+     * Drop a secret so the next read fetches it from Key Vault
+     */
+    invalidate(secretName: string): void {
+        if (this.entries.delete(secretName)) {
+            this.metrics.invalidations++;
+            this.logger.info('Cached secret invalidated', { secretName });
+        }
+    }
+
+    // Fetch a secret, sharing one Key Vault call between concurrent readers
+    private refresh(secretName: string): Promise<string> {
+        const pending = this.inFlight.get(secretName);
+        if (pending) {
+            return pending;
+        }
+
+        const fetch = this.fetch(secretName).finally(() => this.inFlight.delete(secretName));
+        this.inFlight.set(secretName, fetch);
+        return fetch;
+    }
+
+    private async fetch(secretName: string): Promise<string> {
+        this.metrics.fetches++;
+        try {
+            const value = await this.keyVault.getSecret(secretName);
+            const fetchedAt = Date.now();
+            this.entries.set(secretName, {
+                value,
+                fetchedAt,
+                expiresAt: fetchedAt + this.options.ttlMs,
+                refreshAt: fetchedAt + Math.max(0, this.options.ttlMs - this.options.refreshAheadMs)
+            });
+            return value;
+        } catch (error: any) {
+            this.metrics.failures++;
+            const now = Date.now();
+            const entry = this.entries.get(secretName);
+
+            // Keep serving the last good value until it is too old, retrying in the background meanwhile;
+            // a secret that was deleted is dropped at once
+            if (entry && !(error instanceof SecretNotFoundError) && now < entry.fetchedAt + this.options.maxStaleMs) {
+                entry.lastError = error.message;
+                entry.expiresAt = entry.fetchedAt + this.options.maxStaleMs;
+                entry.refreshAt = now + this.options.retryMs;
+                this.metrics.staleServed++;
+                this.logger.warn('Key Vault refresh failed, serving last good secret value', {
+                    secretName,
+                    ageMs: now - entry.fetchedAt,
+                    error: error.message
+                });
+                return entry.value;
+            }
+
+            this.entries.delete(secretName);
+            throw error;
+        }
+    }
+
+    /**
+     * Get current status for monitoring; secret values are never included
+     */
+    getStatus(): {
+        ttlMs: number;
+        refreshAheadMs: number;
+        maxStaleMs: number;
+        metrics: { hits: number; fetches: number; failures: number; staleServed: number; invalidations: number };
+        secrets: Record<string, { ageMs: number; expiresInMs: number; stale: boolean; lastError?: string }>;
+    } {
+        const now = Date.now();
+        const secrets: Record<string, { ageMs: number; expiresInMs: number; stale: boolean; lastError?: string }> = {};
+        for (const [name, entry] of this.entries) {
+            secrets[name] = {
+                ageMs: now - entry.fetchedAt,
+                expiresInMs: entry.expiresAt - now,
+                stale: now >= entry.fetchedAt + this.options.ttlMs,
+                lastError: entry.lastError
+            };
+        }
+
+        return {
+            ttlMs: this.options.ttlMs,
+            refreshAheadMs: this.options.refreshAheadMs,
+            maxStaleMs: this.options.maxStaleMs,
+            metrics: { ...this.metrics },
+            secrets
+        };
+    }
+}
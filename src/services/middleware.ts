@@ -0,0 +1,263 @@
+/**
+ * Common HTTP pipeline for every function
+ * Routes register through registerRoute, which wraps the handler in the same
+ * middleware: request ID, CORS, timing logs, error mapping to ApiResponse,
+ * authentication and JSON body parsing. Handlers receive a RequestContext
+ * carrying what the middleware established.
+ */
+
+import { app, HttpHandler, HttpMethod, HttpRequest, HttpResponseInit, InvocationContext } from '@azure/functions';
+import { v4 as uuidv4 } from 'uuid';
+import { ApiResponse } from '../types';
+import { Logger } from './logger';
+import { corsPolicy, CorsOptions } from './cors';
+import { authenticator, hasScope, AuthenticatedUser } from './auth';
+import { ApiKeyScope } from './apiKeys';
+
+export interface RequestContext {
+    invocation: InvocationContext;
+    requestId: string;
+    logger: Logger;
+    startTime: number;
+    user?: AuthenticatedUser;   // Set when the route requires authentication
+    body?: any;                 // Parsed JSON body when the route parses one
+}
+
+export type RouteHandler = (request: HttpRequest, ctx: RequestContext) => Promise<HttpResponseInit>;
+
+export type Middleware = (
+    request: HttpRequest,
+    ctx: RequestContext,
+    next: () => Promise<HttpResponseInit>
+) => Promise<HttpResponseInit>;
+
+export interface RouteOptions {
+    route: string;
+    methods: HttpMethod[];                        // OPTIONS is added for CORS preflight
+    authLevel?: 'anonymous' | 'function' | 'admin';
+    cors?: Omit<CorsOptions, 'methods'>;
+    auth?: boolean | ApiKeyScope;                 // true authenticates; a scope also requires it of API keys
+    body?: 'json';                                // Parse a JSON body on POST, PUT and PATCH
+}
+
+/**
+ * An error with the status and ApiResponse to return; anything else thrown becomes a 500
+ */
+export class HttpError extends Error {
+    constructor(
+        public status: number,
+        message: string,
+        public options: { errorType?: string; detail?: string; headers?: Record<string, string> } = {}
+    ) {
+        super(message);
+    }
+}
+
+const JSON_HEADERS = { 'Content-Type': 'application/json' };
+
+// Incoming request IDs are echoed into logs and headers, so keep them short and plain
+const REQUEST_ID_PATTERN = /^[A-Za-z0-9._-]{1,128}$/;
+
+export function jsonResponse(status: number, body: ApiResponse, headers: Record<string, string> = {}): HttpResponseInit {
+    return {
+        status,
+        headers: { ...JSON_HEADERS, ...headers },
+        body: JSON.stringify(body)
+    };
+}
+
+// Set a header on a response, whatever form its headers take
+function withHeader(response: HttpResponseInit, name: string, value: string): HttpResponseInit {
+    const headers = new Headers(response.headers as any);
+    headers.set(name, value);
+    return { ...response, headers };
+}
+
+/**
+ * Use the caller's X-Request-Id when it is well formed, otherwise a new one, and return it on the response
+ */
+export function requestId(): Middleware {
+    return async (request, ctx, next) => {
+        const incoming = request.headers.get('x-request-id');
+        ctx.requestId = incoming && REQUEST_ID_PATTERN.test(incoming) ? incoming : uuidv4();
+        return withHeader(await next(), 'X-Request-Id', ctx.requestId);
+    };
+}
+
+/**
+ * Answer preflight requests, refuse origins outside the allowlist and add CORS headers for allowed ones
+ */
+export function cors(options: CorsOptions, policy = corsPolicy): Middleware {
+    return async (request, ctx, next) => {
+        const origin = request.headers.get('origin');
+
+        if (request.method === 'OPTIONS') {
+            return policy.preflight(origin, options);
+        }
+
+        // Requests without an Origin header come from servers and scripts, not browsers
+        if (origin && !policy.isAllowed(origin)) {
+            ctx.logger.warn('Origin refused by CORS policy', { requestId: ctx.requestId, origin });
+            return jsonResponse(403, { success: false, error: 'Origin not allowed' }, { 'Vary': 'Origin' });
+        }
+
+        let response = await next();
+        for (const [name, value] of Object.entries(policy.headersFor(origin, options))) {
+            response = withHeader(response, name, value);
+        }
+        return response;
+    };
+}
+
+/**
+ * Log when a request arrives and when its response is ready; streamed bodies may still be in flight
+ */
+export function timing(name: string): Middleware {
+    return async (request, ctx, next) => {
+        ctx.logger.info(`${name} request received`, { requestId: ctx.requestId, method: request.method });
+
+        const response = await next();
+        ctx.logger.info(`${name} request completed`, {
+            requestId: ctx.requestId,
+            userId: ctx.user?.userId,
+            status: response.status || 200,
+            elapsedMs: Date.now() - ctx.startTime
+        });
+        return response;
+    };
+}
+
+/**
+ * Turn thrown errors into ApiResponse bodies; unexpected errors are logged and never exposed
+ */
+export function errorMapping(): Middleware {
+    return async (request, ctx, next) => {
+        try {
+            return await next();
+        } catch (error: any) {
+            if (error instanceof HttpError) {
+                return jsonResponse(error.status, {
+                    success: false,
+                    error: error.message,
+                    errorType: error.options.errorType,
+                    detail: error.options.detail
+                }, error.options.headers);
+            }
+
+            ctx.logger.error('Unhandled error', {
+                requestId: ctx.requestId,
+                userId: ctx.user?.userId,
+                elapsedMs: Date.now() - ctx.startTime,
+                error: error?.message,
+                stack: error?.stack
+            });
+            return jsonResponse(500, { success: false, error: 'Internal server error' });
+        }
+    };
+}
+
+/**
+ * Authenticate the caller, and when a scope is given require it of API keys
+ */
+export function authenticate(scope?: ApiKeyScope): Middleware {
+    return async (request, ctx, next) => {
+        const auth = await authenticator.authenticate(request.headers);
+        if (!auth.ok) {
+            ctx.logger.warn('Authentication failed', { requestId: ctx.requestId, status: auth.status, error: auth.error });
+            return jsonResponse(auth.status!, { success: false, error: auth.error }, auth.headers);
+        }
+
+        ctx.user = auth.user;
+        if (scope) {
+            requireScope(ctx, scope);
+        }
+        return next();
+    };
+}
+
+/**
+ * Throw a 403 unless the authenticated caller has the scope
+ */
+export function requireScope(ctx: RequestContext, scope: ApiKeyScope): void {
+    if (!hasScope(ctx.user!, scope)) {
+        ctx.logger.warn('Request forbidden', { requestId: ctx.requestId, userId: ctx.user!.userId, scope });
+        throw new HttpError(403, `API key lacks the ${scope} scope`);
+    }
+}
+
+/**
+ * Parse the JSON body of POST, PUT and PATCH requests into ctx.body
+ */
+export function jsonBody(): Middleware {
+    return async (request, ctx, next) => {
+        if (!['POST', 'PUT', 'PATCH'].includes(request.method)) {
+            return next();
+        }
+
+        const text = await request.text();
+        if (!text.trim()) {
+            throw new HttpError(400, 'Request body is required');
+        }
+
+        try {
+            ctx.body = JSON.parse(text);
+        } catch {
+            throw new HttpError(400, 'Request body must be valid JSON');
+        }
+        if (ctx.body === null || typeof ctx.body !== 'object') {
+            throw new HttpError(400, 'Request body must be a JSON object');
+        }
+        return next();
+    };
+}
+
+/**
+ * Run the middleware in order around the handler
+ */
+export function compose(middleware: Middleware[], handler: RouteHandler): HttpHandler {
+    return async (request: HttpRequest, invocation: InvocationContext): Promise<HttpResponseInit> => {
+        const ctx: RequestContext = {
+            invocation,
+            requestId: '',
+            logger: new Logger(invocation),
+            startTime: Date.now()
+        };
+
+        const run = (index: number): Promise<HttpResponseInit> => index < middleware.length
+            ? middleware[index](request, ctx, () => run(index + 1))
+            : handler(request, ctx);
+
+        return run(0);
+    };
+}
+
+/**
+ * Register an HTTP function with the common pipeline
+ */
+export function registerRoute(name: string, options: RouteOptions, handler: RouteHandler): void {
+    const methods: HttpMethod[] = [...options.methods, 'OPTIONS'];
+
+    const middleware = [
+        requestId(),
+        cors({
+            methods,
+            ...options.cors,
+            exposeHeaders: [...(options.cors?.exposeHeaders || []), 'X-Request-Id']
+        }),
+        timing(name),
+        errorMapping()
+    ];
+    if (options.auth) {
+        middleware.push(authenticate(options.auth === true ? undefined : options.auth));
+    }
+    if (options.body === 'json') {
+        middleware.push(jsonBody());
+    }
+
+    app.http(name, {
+        methods,
+        authLevel: options.authLevel || 'anonymous',
+        route: options.route,
+        handler: compose(middleware, handler)
+    });
+}
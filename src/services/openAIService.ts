@@ -1,6 +1,9 @@
 import https from 'https';
-import { OpenAIConfig, ChatCompletionRequest, ChatCompletionResponse } from '../types';
-import { Logger } from './logger';
+import { OpenAIConfig, ChatCompletionRequest, ChatCompletionResponse, EmbeddingsRequest, EmbeddingsResponse } from '../types';
+import { Logger, LogFields } from './logger';
+import { endpointPool } from './endpointPool';
+import { circuitBreaker, CircuitBreaker } from './circuitBreaker';
+import { config } from './config';
 
 export interface RetryConfig {
     maxRetries: number;
@@ -8,76 +11,233 @@ export interface RetryConfig {
     maxDelayMs: number;
 }
 
+export interface DeadlineConfig {
+    requestTimeoutMs: number;       // Default end-to-end budget for a request
+    minRequestTimeoutMs: number;    // Smallest budget a request may ask for
+    maxRequestTimeoutMs: number;    // Largest budget a request may ask for
+    attemptTimeoutMs: number;       // Longest a single attempt may take out of the budget
+}
+
+export interface CallOptions {
+    deadline?: number;      // Epoch milliseconds by which the call must finish (default: now + requestTimeoutMs)
+    signal?: AbortSignal;   // Aborts the current attempt, including a stream body handed back to the caller
+}
+
 export interface AOAIError extends Error {
     status?: number;
     retryAfter?: number;
     isRetryable?: boolean;
+    endpoint?: string;
+    circuitOpen?: boolean;
+    deadlineExceeded?: boolean;
 }
 
+// Used unless a deployment overrides it; must be at least STREAM_USAGE_API_VERSION
+const DEFAULT_API_VERSION = '2024-10-21';
+
+// First api-version that accepts stream_options; older versions reject the field
+const STREAM_USAGE_API_VERSION = '2024-09-01';
+
+// An attempt is not started, and a backoff not waited out, unless at least this much budget would remain
+const MIN_ATTEMPT_MS = 1000;
+
+export const deadlineConfig: DeadlineConfig = {
+    requestTimeoutMs: config.AOAI_REQUEST_TIMEOUT_MS,
+    minRequestTimeoutMs: config.AOAI_MIN_REQUEST_TIMEOUT_MS,
+    maxRequestTimeoutMs: config.AOAI_MAX_REQUEST_TIMEOUT_MS,
+    attemptTimeoutMs: config.AOAI_ATTEMPT_TIMEOUT_MS
+};
+
 export class OpenAIService {
-    private config: OpenAIConfig;
+    private endpoints: OpenAIConfig[];
     private retryConfig: RetryConfig;
+    private deadlineConfig: DeadlineConfig = deadlineConfig;
     private logger: Logger;
     
-    // Shared HTTP agent for connection reuse
+    // Shared HTTP agent for connection reuse; timeouts come from the deadline budget, not the agent
     private static agent = new https.Agent({
         keepAlive: true,
         maxSockets: 64,
-        timeout: 30000,
         keepAliveMsecs: 30000
     });
 
-    constructor(config: OpenAIConfig, logger?: Logger) {
-        this.config = config;
+    /**
+     * @param endpoints A single endpoint, or a pool of endpoints to balance and fail over across
+     */
+    constructor(endpoints: OpenAIConfig | OpenAIConfig[], logger?: Logger) {
+        this.endpoints = Array.isArray(endpoints) ? endpoints : [endpoints];
+        if (this.endpoints.length === 0) {
+            throw new Error('At least one Azure OpenAI endpoint is required');
+        }
         this.logger = logger || new Logger();
         
         this.retryConfig = {
-            maxRetries: Number(process.env.AOAI_MAX_RETRIES || 6),
-            baseDelayMs: Number(process.env.AOAI_BASE_DELAY_MS || 500),
-            maxDelayMs: Number(process.env.AOAI_MAX_DELAY_MS || 15000)
+            maxRetries: config.AOAI_MAX_RETRIES,
+            baseDelayMs: config.AOAI_BASE_DELAY_MS,
+            maxDelayMs: config.AOAI_MAX_DELAY_MS
         };
     }
 
-    async chatCompletion(request: ChatCompletionRequest, deployment: string, requestId?: string): Promise<ChatCompletionResponse> {
-        const apiVersion = this.config.apiVersion || '2024-02-15-preview';
-        const url = `${this.config.endpoint}/openai/deployments/${deployment}/chat/completions?api-version=${apiVersion}`;
+    async chatCompletion(request: ChatCompletionRequest, deployment: string, requestId?: string, options: CallOptions = {}): Promise<ChatCompletionResponse> {
+        return this.executeWithRetry('chat/completions', request, deployment, requestId, options, this.describeChatRequest(request), async (response, attempt) => {
+            const result = await response.json() as ChatCompletionResponse;
+
+            this.logger.info(`AOAI success`, {
+                requestId,
+                attempt,
+                status: response.status,
+                totalTokens: result.usage?.total_tokens
+            });
+
+            return result;
+        });
+    }
+
+    /**
+     * Open a streaming chat completion and return the upstream SSE body.
+     * Retries and the deadline only cover establishing the stream; once the
+     * body is handed back to the caller no further attempts are made, and
+     * options.signal is how the caller stops a stalled upstream.
+     * Usage is always requested, so quotas and the usage ledger see real token
+     * counts; callers strip the usage chunk when the client did not ask for it.
+     */
+    async chatCompletionStream(request: ChatCompletionRequest, deployment: string, requestId?: string, options: CallOptions = {}): Promise<ReadableStream<Uint8Array>> {
+        // Every endpoint of a call shares the deployment's api-version
+        const apiVersion = this.endpoints[0].apiVersion || DEFAULT_API_VERSION;
+        const streamRequest: ChatCompletionRequest = apiVersion.substring(0, 10) >= STREAM_USAGE_API_VERSION
+            ? { ...request, stream: true, stream_options: { ...request.stream_options, include_usage: true } }
+            : { ...request, stream: true };
+
+        return this.executeWithRetry('chat/completions', streamRequest, deployment, requestId, options, this.describeChatRequest(streamRequest), async (response, attempt) => {
+            if (!response.body) {
+                throw new Error('AOAI returned an empty stream');
+            }
+
+            this.logger.info(`AOAI stream opened`, {
+                requestId,
+                attempt,
+                status: response.status
+            });
 
+            return response.body as ReadableStream<Uint8Array>;
+        });
+    }
+
+    async embeddings(request: EmbeddingsRequest, deployment: string, requestId?: string, options: CallOptions = {}): Promise<EmbeddingsResponse> {
+        const inputCount = Array.isArray(request.input) ? request.input.length : 1;
+
+        return this.executeWithRetry('embeddings', request, deployment, requestId, options, { inputCount }, async (response, attempt) => {
+            const result = await response.json() as EmbeddingsResponse;
+
+            this.logger.info(`AOAI embeddings success`, {
+                requestId,
+                attempt,
+                status: response.status,
+                inputCount,
+                totalTokens: result.usage?.total_tokens
+            });
+
+            return result;
+        });
+    }
+
+    private describeChatRequest(request: ChatCompletionRequest): LogFields {
+        return {
+            messageCount: request.messages.length,
+            maxTokens: request.max_tokens,
+            stream: request.stream === true
+        };
+    }
+
+    /**
+     * Send a request to the deployment, retrying 429/5xx and network errors.
+     * A failed attempt moves straight on to another healthy endpoint in the
+     * pool; backoff only applies once every endpoint has been tried.
+     * onSuccess runs inside the retry loop so that failures while reading a
+     * successful response are retried as well.
+     * Every attempt is aborted once it uses up its share of the deadline
+     * budget, and backoffs that would not leave room for another attempt
+     * end the retries early.
+     */
+    private async executeWithRetry<T>(
+        operation: string,
+        request: object,
+        deployment: string,
+        requestId: string | undefined,
+        options: CallOptions,
+        requestFields: LogFields,
+        onSuccess: (response: Response, attempt: number) => Promise<T>
+    ): Promise<T> {
         let delay = this.retryConfig.baseDelayMs;
         let lastError: AOAIError | null = null;
 
+        const deadline = options.deadline ?? Date.now() + this.deadlineConfig.requestTimeoutMs;
+        const remainingMs = () => deadline - Date.now();
+
+        // Endpoints tried since the last backoff
+        const tried = new Set<string>();
+
         for (let attempt = 1; attempt <= this.retryConfig.maxRetries; attempt++) {
+            if (remainingMs() < MIN_ATTEMPT_MS) {
+                throw this.deadlineError(requestId, attempt, lastError);
+            }
+
+            // Fail fast once every endpoint's circuit for this deployment is open
+            const candidates = this.availableEndpoints(deployment);
+            if (candidates.length === 0) {
+                const circuitError = this.circuitOpenError(deployment, lastError);
+                this.logger.warn(`AOAI circuit open`, { requestId, attempt, deployment, retryAfter: circuitError.retryAfter });
+                throw circuitError;
+            }
+
+            const endpoint = endpointPool.select(candidates, tried);
+            tried.add(endpointPool.keyOf(endpoint));
+
+            const circuitKey = CircuitBreaker.keyFor(endpointPool.keyOf(endpoint), deployment);
+            circuitBreaker.onAttempt(circuitKey);
+
+            const apiVersion = endpoint.apiVersion || DEFAULT_API_VERSION;
+            const url = `${endpoint.endpoint}/openai/deployments/${deployment}/${operation}?api-version=${apiVersion}`;
+            const endpointName = endpoint.name || endpoint.endpoint;
+
+            // This attempt's share of the budget: the per-attempt limit, or whatever is left
+            const attemptTimeoutMs = Math.min(this.deadlineConfig.attemptTimeoutMs, remainingMs());
+            const controller = new AbortController();
+            const attemptTimer = setTimeout(() => controller.abort(), attemptTimeoutMs);
+            const abortAttempt = () => controller.abort();
+            options.signal?.addEventListener('abort', abortAttempt);
+            let succeeded = false;
+
             try {
                 this.logger.info(`AOAI attempt ${attempt}`, {
                     requestId,
                     attempt,
                     deployment,
-                    messageCount: request.messages.length,
-                    maxTokens: request.max_tokens
+                    operation,
+                    endpoint: endpointName,
+                    attemptTimeoutMs,
+                    ...requestFields
                 });
 
                 const response = await fetch(url, {
                     method: 'POST',
                     headers: {
                         'Content-Type': 'application/json',
-                        'api-key': this.config.apiKey,
+                        'api-key': endpoint.apiKey,
                         'User-Agent': 'KeyRetriever-Proxy/1.0'
                     },
                     body: JSON.stringify(request),
+                    signal: controller.signal,
                     // @ts-ignore - Node.js fetch agent support
                     agent: OpenAIService.agent
                 });
 
                 // Success case
                 if (response.ok) {
-                    const result = await response.json() as ChatCompletionResponse;
-                    
-                    this.logger.info(`AOAI success`, {
-                        requestId,
-                        attempt,
-                        status: response.status,
-                        totalTokens: result.usage?.total_tokens
-                    });
-                    
+                    const result = await onSuccess(response, attempt);
+                    succeeded = true;
+                    endpointPool.reportSuccess(endpoint);
+                    circuitBreaker.onSuccess(circuitKey);
                     return result;
                 }
 
@@ -97,10 +257,19 @@ export class OpenAIService {
                 error.status = status;
                 error.retryAfter = retryAfter;
                 error.isRetryable = status === 429 || status >= 500;
+                error.endpoint = endpointName;
+
+                // Only server errors count against the circuit; throttling and client errors leave it as it is
+                if (status >= 500) {
+                    circuitBreaker.onFailure(circuitKey, error.message);
+                } else {
+                    circuitBreaker.onInconclusive(circuitKey);
+                }
 
                 this.logger.warn(`AOAI error`, {
                     requestId,
                     attempt,
+                    endpoint: endpointName,
                     status,
                     retryAfter,
                     isRetryable: error.isRetryable,
@@ -113,12 +282,20 @@ export class OpenAIService {
                 }
 
                 lastError = error;
+                endpointPool.reportFailure(endpoint, error.message, retryAfter);
 
                 // If this is the last attempt, don't wait
                 if (attempt === this.retryConfig.maxRetries) {
                     break;
                 }
 
+                // Fail over to another endpoint right away when one is available
+                if (endpointPool.hasFailoverTarget(this.availableEndpoints(deployment), tried)) {
+                    this.logger.info(`Failing over to next endpoint`, { requestId, attempt, endpoint: endpointName, status });
+                    continue;
+                }
+                tried.clear();
+
                 // Calculate delay: honor Retry-After header or use exponential backoff with jitter
                 let waitMs: number;
                 if (retryAfter) {
@@ -132,6 +309,11 @@ export class OpenAIService {
                     delay = Math.min(delay * 2, this.retryConfig.maxDelayMs); // Double for next time
                 }
 
+                // Waiting out the backoff would leave no room for another attempt
+                if (waitMs + MIN_ATTEMPT_MS > remainingMs()) {
+                    throw this.deadlineError(requestId, attempt, lastError, waitMs);
+                }
+
                 this.logger.info(`Retrying after delay`, {
                     requestId,
                     attempt,
@@ -142,24 +324,50 @@ export class OpenAIService {
                 await this.sleep(waitMs);
 
             } catch (error: any) {
-                // Network errors, parsing errors, etc.
+                // Aborted by the caller: nothing to retry
+                if (options.signal?.aborted) {
+                    throw error;
+                }
+
+                // Network errors, parsing errors, attempt timeouts, etc.
                 if (!error.status) {
+                    if (controller.signal.aborted) {
+                        error = new Error(`AOAI attempt timed out after ${attemptTimeoutMs}ms`);
+                    }
                     lastError = error;
+                    endpointPool.reportFailure(endpoint, error.message || 'network error');
+                    circuitBreaker.onFailure(circuitKey, error.message || 'network error');
                     this.logger.error(`AOAI network/parse error`, {
                         requestId,
                         attempt,
+                        endpoint: endpointName,
                         error: error.message
                     });
                     
                     // For network errors, still retry but with a shorter delay
                     if (attempt < this.retryConfig.maxRetries) {
-                        await this.sleep(Math.min(delay, 5000));
+                        if (endpointPool.hasFailoverTarget(this.availableEndpoints(deployment), tried)) {
+                            continue;
+                        }
+                        tried.clear();
+
+                        const waitMs = Math.min(delay, 5000);
+                        if (waitMs + MIN_ATTEMPT_MS > remainingMs()) {
+                            throw this.deadlineError(requestId, attempt, lastError, waitMs);
+                        }
+                        await this.sleep(waitMs);
                         delay *= 2;
                         continue;
                     }
                 }
                 
                 throw error;
+            } finally {
+                clearTimeout(attemptTimer);
+                // A returned stream body is still read through this attempt, so the caller may abort it later
+                if (!succeeded) {
+                    options.signal?.removeEventListener('abort', abortAttempt);
+                }
             }
         }
 
@@ -173,6 +381,53 @@ export class OpenAIService {
         throw lastError || new Error('All retries exhausted');
     }
 
+    /**
+     * Throw the circuit-open error if no endpoint can currently serve the deployment.
+     * Lets callers fail fast before waiting for a concurrency permit.
+     */
+    assertAvailable(deployment: string): void {
+        if (this.availableEndpoints(deployment).length === 0) {
+            throw this.circuitOpenError(deployment, null);
+        }
+    }
+
+    private availableEndpoints(deployment: string): OpenAIConfig[] {
+        return this.endpoints.filter(endpoint =>
+            circuitBreaker.isAvailable(CircuitBreaker.keyFor(endpointPool.keyOf(endpoint), deployment)));
+    }
+
+    private circuitOpenError(deployment: string, lastError: AOAIError | null): AOAIError {
+        const retryAfterMs = Math.min(...this.endpoints.map(endpoint =>
+            circuitBreaker.retryAfterMs(CircuitBreaker.keyFor(endpointPool.keyOf(endpoint), deployment))));
+
+        const error: AOAIError = new Error(`AOAI circuit open for deployment ${deployment}` +
+            (lastError ? ` (last error: ${lastError.message.slice(0, 200)})` : ''));
+        error.status = 503;
+        error.retryAfter = Math.max(1, Math.ceil(retryAfterMs / 1000));
+        error.isRetryable = false;
+        error.circuitOpen = true;
+        return error;
+    }
+
+    /**
+     * The error for a request whose deadline budget ran out before it could succeed
+     */
+    private deadlineError(requestId: string | undefined, attempt: number, lastError: AOAIError | null, waitMs?: number): AOAIError {
+        this.logger.warn(`AOAI deadline budget exhausted`, {
+            requestId,
+            attempt,
+            skippedWaitMs: waitMs,
+            lastError: lastError?.message?.slice(0, 200)
+        });
+
+        const error: AOAIError = new Error('AOAI request deadline exceeded' +
+            (lastError ? ` (last error: ${lastError.message.slice(0, 200)})` : ''));
+        error.status = 504;
+        error.isRetryable = false;
+        error.deadlineExceeded = true;
+        return error;
+    }
+
     private sleep(ms: number): Promise<void> {
         return new Promise(resolve => setTimeout(resolve, ms));
     }
@@ -180,13 +435,14 @@ export class OpenAIService {
     /**
      * Get configuration for monitoring
      */
-    getConfig(): { retryConfig: RetryConfig; agentConfig: any } {
+    getConfig(): { retryConfig: RetryConfig; deadlineConfig: DeadlineConfig; agentConfig: any; endpoints: string[] } {
         return {
             retryConfig: this.retryConfig,
+            deadlineConfig: this.deadlineConfig,
+            endpoints: this.endpoints.map(e => e.name || e.endpoint),
             agentConfig: {
                 keepAlive: true,
-                maxSockets: 64,
-                timeout: 30000
+                maxSockets: 64
             }
         };
     }
@@ -0,0 +1,395 @@
+/**
+ * Server-side prompt templates
+ * Templates are published through the management route as immutable, numbered
+ * versions, one JSON blob per version ("<id>/<version>.json") in the template
+ * container. Chat requests name a template and pass variables; the proxy renders
+ * the template's messages itself, so prompts change without a frontend deploy and
+ * clients cannot edit them. "{{name}}" placeholders are replaced in a single pass,
+ * so a variable value is never expanded again.
+ */
+
+import { BlobStorageService, getBlobStorageConfig } from './blobStorageService';
+import { config } from './config';
+
+export type TemplateRole = 'system' | 'user' | 'assistant';
+
+export interface TemplateMessage {
+    role: TemplateRole;
+    content: string;
+}
+
+export interface TemplateVariable {
+    description?: string;
+    required?: boolean;     // Default: true, unless a default is given
+    default?: string;
+    maxLength?: number;     // Default: DEFAULT_MAX_VARIABLE_LENGTH
+    values?: string[];      // Allowed values; omitted allows any
+    pattern?: string;       // Regular expression the whole value must match
+}
+
+export interface PromptTemplate {
+    id: string;
+    version: number;
+    description?: string;
+    messages: TemplateMessage[];
+    variables: Record<string, TemplateVariable>;
+    createdAt: string;
+}
+
+export interface PromptTemplateSummary {
+    id: string;
+    latestVersion: number;
+    versions: number[];
+    updatedAt: string;
+}
+
+export interface PublishTemplateRequest {
+    description?: string;
+    messages: TemplateMessage[];
+    variables?: Record<string, TemplateVariable>;
+}
+
+// What a chat request sends in place of (or ahead of) its own messages
+export interface TemplateReference {
+    id: string;
+    version?: number;       // Omitted uses the latest version
+    variables?: Record<string, string | number | boolean>;
+}
+
+/**
+ * Thrown when a template cannot be rendered; the message is safe to return to the client
+ */
+export class TemplateError extends Error {}
+
+const TEMPLATE_ID_PATTERN = /^[a-z0-9][a-z0-9._-]{0,63}$/;
+const VARIABLE_NAME_PATTERN = /^[A-Za-z_][A-Za-z0-9_]{0,63}$/;
+const PLACEHOLDER_PATTERN = /\{\{\s*([A-Za-z_][A-Za-z0-9_]*)\s*\}\}/g;
+const TEMPLATE_ROLES: TemplateRole[] = ['system', 'user', 'assistant'];
+
+const DEFAULT_MAX_VARIABLE_LENGTH = 2000;
+const MAX_TEMPLATE_MESSAGES = 20;
+const MAX_TEMPLATE_MESSAGE_LENGTH = 100000;
+
+// Concurrent publishes race for the next version number; the loser retries with the one after
+const MAX_PUBLISH_ATTEMPTS = 5;
+
+function hasOwn(object: object, key: string): boolean {
+    return Object.prototype.hasOwnProperty.call(object, key);
+}
+
+function placeholders(content: string): string[] {
+    const names: string[] = [];
+    content.replace(PLACEHOLDER_PATTERN, (_, name: string) => {
+        names.push(name);
+        return '';
+    });
+    return names;
+}
+
+/**
+ * Validate the template reference of a chat request, returning an error message when it is invalid
+ */
+export function validateTemplateReference(reference: any): string | null {
+    if (!reference || typeof reference !== 'object' || Array.isArray(reference)) {
+        return 'template must be an object with an id';
+    }
+    if (typeof reference.id !== 'string' || !TEMPLATE_ID_PATTERN.test(reference.id)) {
+        return 'template.id must be a template ID';
+    }
+    if (reference.version !== undefined && (!Number.isInteger(reference.version) || reference.version < 1)) {
+        return 'template.version must be a positive integer';
+    }
+    if (reference.variables !== undefined &&
+        (!reference.variables || typeof reference.variables !== 'object' || Array.isArray(reference.variables))) {
+        return 'template.variables must be an object';
+    }
+    return null;
+}
+
+/**
+ * Render a template's messages, checking every variable against its declaration
+ * Throws TemplateError naming the first variable that is unknown, missing or invalid
+ */
+export function renderTemplate(template: PromptTemplate, variables: Record<string, unknown> = {}): TemplateMessage[] {
+    const name = `${template.id} v${template.version}`;
+
+    for (const key of Object.keys(variables)) {
+        if (!hasOwn(template.variables, key)) {
+            throw new TemplateError(`Template ${name} has no variable ${key}`);
+        }
+    }
+
+    const values: Record<string, string> = {};
+    for (const [key, variable] of Object.entries(template.variables)) {
+        const raw = variables[key];
+        if (raw === undefined || raw === null || raw === '') {
+            if (variable.default !== undefined) {
+                values[key] = variable.default;
+                continue;
+            }
+            if (variable.required === false) {
+                values[key] = '';
+                continue;
+            }
+            throw new TemplateError(`Template ${name} requires variable ${key}`);
+        }
+
+        if (!['string', 'number', 'boolean'].includes(typeof raw)) {
+            throw new TemplateError(`Variable ${key} must be a string, number or boolean`);
+        }
+        const value = String(raw);
+
+        const maxLength = variable.maxLength ?? DEFAULT_MAX_VARIABLE_LENGTH;
+        if (value.length > maxLength) {
+            throw new TemplateError(`Variable ${key} is too long (max: ${maxLength})`);
+        }
+        if (variable.values && !variable.values.includes(value)) {
+            throw new TemplateError(`Variable ${key} must be one of: ${variable.values.join(', ')}`);
+        }
+        if (variable.pattern && !new RegExp(`^(?:${variable.pattern})$`).test(value)) {
+            throw new TemplateError(`Variable ${key} does not match the required format`);
+        }
+        values[key] = value;
+    }
+
+    return template.messages.map(message => ({
+        role: message.role,
+        content: message.content.replace(PLACEHOLDER_PATTERN, (_, key: string) => values[key])
+    }));
+}
+
+export class PromptTemplateStore {
+    private servicePromise: Promise<BlobStorageService> | null = null;
+    // Published versions never change, so they are kept until the instance recycles
+    private versions = new Map<string, PromptTemplate>();
+    private latest = new Map<string, { version: number | null; expiresAt: number }>();
+
+    /**
+     * @param createService Creates the service for the template container; called once on first use
+     * @param latestCacheMs How long the latest version of a template is cached before storage is checked again
+     */
+    constructor(
+        private createService: () => Promise<BlobStorageService>,
+        private latestCacheMs: number = 60 * 1000
+    ) {}
+
+    /**
+     * Validate a publish request, returning an error message when it is invalid
+     */
+    static validatePublish(id: string, body: any): string | null {
+        if (!TEMPLATE_ID_PATTERN.test(id || '')) {
+            return 'Template ID must be 1-64 lowercase letters, digits, dots, dashes or underscores';
+        }
+        if (!body || typeof body !== 'object') {
+            return 'Request body must be a JSON object';
+        }
+        if (body.description !== undefined && (typeof body.description !== 'string' || body.description.length > 500)) {
+            return 'description must be a string of at most 500 characters';
+        }
+        if (!Array.isArray(body.messages) || body.messages.length === 0 || body.messages.length > MAX_TEMPLATE_MESSAGES) {
+            return `messages must be an array of 1-${MAX_TEMPLATE_MESSAGES} messages`;
+        }
+
+        const variables = body.variables ?? {};
+        if (typeof variables !== 'object' || Array.isArray(variables)) {
+            return 'variables must be an object';
+        }
+        for (const [name, variable] of Object.entries<any>(variables)) {
+            const error = PromptTemplateStore.validateVariable(name, variable);
+            if (error) {
+                return error;
+            }
+        }
+
+        for (const [i, message] of body.messages.entries()) {
+            if (!message || !TEMPLATE_ROLES.includes(message.role)) {
+                return `Message ${i} must have a role of ${TEMPLATE_ROLES.join(', ')}`;
+            }
+            if (typeof message.content !== 'string' || !message.content.trim() || message.content.length > MAX_TEMPLATE_MESSAGE_LENGTH) {
+                return `Message ${i} content must be a non-empty string of at most ${MAX_TEMPLATE_MESSAGE_LENGTH} characters`;
+            }
+            const undeclared = placeholders(message.content).find(name => !hasOwn(variables, name));
+            if (undeclared) {
+                return `Message ${i} uses undeclared variable ${undeclared}`;
+            }
+        }
+        return null;
+    }
+
+    private static validateVariable(name: string, variable: any): string | null {
+        if (!VARIABLE_NAME_PATTERN.test(name)) {
+            return `Variable name ${name} must be a letter or underscore followed by letters, digits or underscores`;
+        }
+        if (!variable || typeof variable !== 'object' || Array.isArray(variable)) {
+            return `Variable ${name} must be an object`;
+        }
+        if (variable.required !== undefined && typeof variable.required !== 'boolean') {
+            return `Variable ${name} required must be a boolean`;
+        }
+        if (variable.default !== undefined && typeof variable.default !== 'string') {
+            return `Variable ${name} default must be a string`;
+        }
+        if (variable.maxLength !== undefined && (!Number.isInteger(variable.maxLength) || variable.maxLength < 1)) {
+            return `Variable ${name} maxLength must be a positive integer`;
+        }
+        if (variable.values !== undefined &&
+            (!Array.isArray(variable.values) || variable.values.length === 0 || variable.values.some((value: any) => typeof value !== 'string'))) {
+            return `Variable ${name} values must be a non-empty array of strings`;
+        }
+        if (variable.pattern !== undefined) {
+            try {
+                new RegExp(variable.pattern);
+            } catch {
+                return `Variable ${name} pattern is not a valid regular expression`;
+            }
+        }
+        return null;
+    }
+
+    /**
+     * Publish a new version of a template; earlier versions stay available
+     */
+    async publish(id: string, request: PublishTemplateRequest): Promise<PromptTemplate> {
+        const service = await this.getService();
+
+        for (let attempt = 1; attempt <= MAX_PUBLISH_ATTEMPTS; attempt++) {
+            const existing = await this.listVersions(id);
+            const template: PromptTemplate = {
+                id,
+                version: existing.length > 0 ? existing[existing.length - 1] + 1 : 1,
+                description: request.description,
+                messages: request.messages.map(message => ({ role: message.role, content: message.content })),
+                variables: request.variables || {},
+                createdAt: new Date().toISOString()
+            };
+
+            const written = await service.uploadBlobConditional(this.toBlobName(id, template.version), JSON.stringify(template), { ifNoneMatch: '*' });
+            if (written) {
+                this.versions.set(this.toBlobName(id, template.version), template);
+                this.latest.set(id, { version: template.version, expiresAt: Date.now() + this.latestCacheMs });
+                return template;
+            }
+        }
+
+        throw new Error(`Publishing template ${id} failed after ${MAX_PUBLISH_ATTEMPTS} attempts due to contention`);
+    }
+
+    /**
+     * Summaries of every template, sorted by ID
+     */
+    async list(): Promise<PromptTemplateSummary[]> {
+        const service = await this.getService();
+        const summaries = new Map<string, PromptTemplateSummary>();
+
+        for (const blob of await service.listBlobs()) {
+            const parsed = this.parseBlobName(blob.name);
+            if (!parsed) {
+                continue;
+            }
+
+            const updatedAt = blob.lastModified.toISOString();
+            const summary = summaries.get(parsed.id);
+            if (!summary) {
+                summaries.set(parsed.id, { id: parsed.id, latestVersion: parsed.version, versions: [parsed.version], updatedAt });
+                continue;
+            }
+            summary.versions.push(parsed.version);
+            summary.latestVersion = Math.max(summary.latestVersion, parsed.version);
+            if (updatedAt > summary.updatedAt) {
+                summary.updatedAt = updatedAt;
+            }
+        }
+
+        return [...summaries.values()]
+            .map(summary => ({ ...summary, versions: summary.versions.sort((a, b) => a - b) }))
+            .sort((a, b) => a.id.localeCompare(b.id));
+    }
+
+    /**
+     * Published version numbers of a template, oldest first
+     */
+    async listVersions(id: string): Promise<number[]> {
+        const service = await this.getService();
+        return (await service.listBlobs(`${id}/`))
+            .map(blob => this.parseBlobName(blob.name))
+            .filter(parsed => parsed && parsed.id === id)
+            .map(parsed => parsed!.version)
+            .sort((a, b) => a - b);
+    }
+
+    /**
+     * Get one version of a template, or its latest version; returns null when it does not exist
+     */
+    async get(id: string, version?: number): Promise<PromptTemplate | null> {
+        const resolved = version ?? await this.latestVersion(id);
+        if (resolved === null) {
+            return null;
+        }
+
+        const blobName = this.toBlobName(id, resolved);
+        const cached = this.versions.get(blobName);
+        if (cached) {
+            return cached;
+        }
+
+        const service = await this.getService();
+        let template: PromptTemplate;
+        try {
+            template = JSON.parse((await service.downloadBlob(blobName)).content);
+        } catch (error) {
+            if (error.statusCode === 404) {
+                return null;
+            }
+            throw error;
+        }
+
+        this.versions.set(blobName, template);
+        return template;
+    }
+
+    private async latestVersion(id: string): Promise<number | null> {
+        const cached = this.latest.get(id);
+        if (cached && cached.expiresAt > Date.now()) {
+            return cached.version;
+        }
+
+        // Unknown IDs are cached too, so requests naming a missing template do not each list the container
+        const versions = await this.listVersions(id);
+        const version = versions.length > 0 ? versions[versions.length - 1] : null;
+        this.latest.set(id, { version, expiresAt: Date.now() + this.latestCacheMs });
+        return version;
+    }
+
+    private getService(): Promise<BlobStorageService> {
+        if (!this.servicePromise) {
+            this.servicePromise = this.createService().then(async service => {
+                await service.ensureContainer();
+                return service;
+            });
+            // Allow a later call to retry if initialization failed
+            this.servicePromise.catch(() => { this.servicePromise = null; });
+        }
+        return this.servicePromise;
+    }
+
+    private toBlobName(id: string, version: number): string {
+        return `${id}/${version}.json`;
+    }
+
+    private parseBlobName(blobName: string): { id: string; version: number } | null {
+        const match = /^([^/]+)\/([1-9][0-9]*)\.json$/.exec(blobName);
+        return match ? { id: match[1], version: Number(match[2]) } : null;
+    }
+}
+
+// Singleton instance backed by the template container
+export const promptTemplateStore = new PromptTemplateStore(
+    async () => {
+        const blobConfig = await getBlobStorageConfig();
+        return new BlobStorageService({
+            ...blobConfig,
+            containerName: config.PROMPT_TEMPLATES_CONTAINER
+        });
+    },
+    config.PROMPT_TEMPLATE_CACHE_MS
+);
@@ -0,0 +1,157 @@
+/**
+ * Short-lived proxy tokens
+ * Handed out by the openai/config route instead of the Azure OpenAI key. A token
+ * looks like "pt_<payload>.<signature>": a base64url JSON payload naming the
+ * caller, the deployments it may use and its expiry, signed with HMAC-SHA256.
+ * The proxy verifies the signature and expiry itself, so tokens need no storage
+ * and the real key never leaves the server. Tokens cannot be revoked; keep
+ * their lifetime short.
+ */
+
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto';
+import { ApiKeyScope } from './apiKeys';
+import { SECRET_REFS, SecretRef, secretProviders } from './secretProviders';
+import { config } from './config';
+
+// Tokens only unlock the OpenAI proxy, never blob storage or another token
+const TOKEN_SCOPES: ApiKeyScope[] = ['chat', 'embeddings', 'interactive'];
+
+const TOKEN_PATTERN = /^pt_([A-Za-z0-9_-]+)\.([A-Za-z0-9_-]{43})$/;
+
+// HMAC-SHA256 keys shorter than this are too easy to guess; config.ts checks the configured key too
+const MIN_SIGNING_KEY_LENGTH = 32;
+
+export interface ProxyTokenClaims {
+    sub: string;                // User ID of the caller the token was issued to
+    scopes: ApiKeyScope[];
+    deployments?: string[];     // Real deployment names; omitted allows any deployment
+    iat: number;                // Seconds since the epoch
+    exp: number;
+    jti: string;
+}
+
+export interface IssuedProxyToken {
+    token: string;
+    tokenType: 'Bearer';
+    expiresAt: string;
+    deployments?: string[];
+}
+
+/**
+ * Thrown when a token cannot be accepted; the message is safe to return to the client
+ */
+export class ProxyTokenError extends Error {}
+
+/**
+ * Whether a credential looks like a proxy token rather than a JWT or API key
+ */
+export function isProxyToken(credential: string): boolean {
+    return credential.startsWith('pt_');
+}
+
+export class ProxyTokenService {
+    private metrics = { issued: 0, verified: 0, rejected: 0 };
+
+    /**
+     * @param ttlSeconds Lifetime of issued tokens
+     * @param signingKeyRef Where the secret providers find the signing key
+     */
+    constructor(
+        private ttlSeconds: number,
+        private signingKeyRef: SecretRef
+    ) {}
+
+    /**
+     * Issue a token bound to a user and, optionally, to a set of real deployment names
+     */
+    async issue(userId: string, deployments?: string[]): Promise<IssuedProxyToken> {
+        const now = Math.floor(Date.now() / 1000);
+        const claims: ProxyTokenClaims = {
+            sub: userId,
+            scopes: TOKEN_SCOPES,
+            ...(deployments && { deployments }),
+            iat: now,
+            exp: now + this.ttlSeconds,
+            jti: randomBytes(12).toString('base64url')
+        };
+
+        const payload = Buffer.from(JSON.stringify(claims)).toString('base64url');
+        const signature = await this.sign(payload);
+        this.metrics.issued++;
+
+        return {
+            token: `pt_${payload}.${signature}`,
+            tokenType: 'Bearer',
+            expiresAt: new Date(claims.exp * 1000).toISOString(),
+            deployments
+        };
+    }
+
+    /**
+     * Check a token's signature and expiry and return its claims
+     * Throws ProxyTokenError when the token is invalid; other errors mean the signing key is unavailable
+     */
+    async verify(token: string): Promise<ProxyTokenClaims> {
+        const match = TOKEN_PATTERN.exec(token);
+        if (!match) {
+            return this.rejectToken('Proxy token is malformed');
+        }
+
+        const [, payload, signature] = match;
+        const expected = Buffer.from(await this.sign(payload));
+        const actual = Buffer.from(signature);
+        if (actual.length !== expected.length || !timingSafeEqual(actual, expected)) {
+            return this.rejectToken('Proxy token signature is invalid');
+        }
+
+        let claims: ProxyTokenClaims;
+        try {
+            claims = JSON.parse(Buffer.from(payload, 'base64url').toString('utf8'));
+        } catch {
+            return this.rejectToken('Proxy token is malformed');
+        }
+
+        if (typeof claims?.sub !== 'string' || !claims.sub || typeof claims.exp !== 'number' || !Array.isArray(claims.scopes)) {
+            return this.rejectToken('Proxy token is malformed');
+        }
+        if (claims.exp <= Date.now() / 1000) {
+            return this.rejectToken('Proxy token has expired');
+        }
+
+        this.metrics.verified++;
+        return claims;
+    }
+
+    private rejectToken(message: string): never {
+        this.metrics.rejected++;
+        throw new ProxyTokenError(message);
+    }
+
+    private async sign(payload: string): Promise<string> {
+        return createHmac('sha256', await this.signingKey()).update(payload).digest('base64url');
+    }
+
+    private async signingKey(): Promise<string> {
+        const key = await secretProviders.getSecret(this.signingKeyRef);
+        if (key.length < MIN_SIGNING_KEY_LENGTH) {
+            throw new Error(`Proxy token signing key must be at least ${MIN_SIGNING_KEY_LENGTH} characters`);
+        }
+        return key;
+    }
+
+    /**
+     * Get current status for monitoring
+     */
+    getStatus(): { ttlSeconds: number; metrics: { issued: number; verified: number; rejected: number } } {
+        return {
+            ttlSeconds: this.ttlSeconds,
+            metrics: { ...this.metrics }
+        };
+    }
+}
+
+// Singleton instance
+export const proxyTokenService = new ProxyTokenService(
+    config.PROXY_TOKEN_TTL_SECONDS,
+    SECRET_REFS.proxyTokenSigningKey
+);
@@ -0,0 +1,200 @@
+/**
+ * Per-user daily and monthly token quotas
+ * Usage is recorded from the upstream usage block and kept in the state store,
+ * so it survives restarts and is shared across instances with the blob store.
+ * Periods follow UTC calendar days and months.
+ */
+
+import { StateStore, stateStore } from './stateStore';
+import { config } from './config';
+import { Logger } from './logger';
+
+export type QuotaPeriod = 'daily' | 'monthly';
+
+// Token allowance per period; 0 means unlimited
+export interface QuotaLimits {
+    daily: number;
+    monthly: number;
+}
+
+export interface QuotaCheck {
+    ok: boolean;
+    period?: QuotaPeriod;           // Exhausted period when not ok
+    remaining?: number;             // Smallest remaining allowance, undefined when unlimited
+    retryAfterSeconds?: number;     // Until the exhausted period resets
+}
+
+export interface QuotaUsage {
+    used: number;
+    limit: number;
+    remaining?: number;
+    resetsAt: string;
+}
+
+const PERIODS: QuotaPeriod[] = ['daily', 'monthly'];
+
+// Counters outlive their period slightly so late usage is not lost at the boundary
+const COUNTER_GRACE_MS = 24 * 60 * 60 * 1000;
+
+function periodBounds(period: QuotaPeriod, now: Date): { id: string; resetsAt: Date } {
+    const year = now.getUTCFullYear();
+    const month = now.getUTCMonth();
+
+    if (period === 'daily') {
+        return {
+            id: now.toISOString().substring(0, 10),
+            resetsAt: new Date(Date.UTC(year, month, now.getUTCDate() + 1))
+        };
+    }
+
+    return {
+        id: now.toISOString().substring(0, 7),
+        resetsAt: new Date(Date.UTC(year, month + 1, 1))
+    };
+}
+
+export class QuotaManager {
+    constructor(
+        private defaults: QuotaLimits,
+        private overrides: Record<string, Partial<QuotaLimits>> = {},
+        private store: StateStore = stateStore
+    ) {}
+
+    /**
+     * Parse per-user overrides from QUOTA_USER_OVERRIDES, e.g. {"alice": {"daily": 500000}}
+     */
+    static parseOverrides(raw: string | undefined): Record<string, Partial<QuotaLimits>> {
+        if (!raw) {
+            return {};
+        }
+
+        try {
+            const value = JSON.parse(raw);
+            if (!value || typeof value !== 'object' || Array.isArray(value)) {
+                throw new Error('expected a JSON object keyed by user ID');
+            }
+            return value;
+        } catch (error: any) {
+            new Logger().error('Invalid QUOTA_USER_OVERRIDES configuration, using defaults', { error: error.message });
+            return {};
+        }
+    }
+
+    get enabled(): boolean {
+        return this.defaults.daily > 0 || this.defaults.monthly > 0 || Object.keys(this.overrides).length > 0;
+    }
+
+    limitsFor(userId: string): QuotaLimits {
+        return { ...this.defaults, ...this.overrides[userId] };
+    }
+
+    /**
+     * Check whether the user has any allowance left in every period.
+     * A request is admitted while budget remains, so the last one may overshoot slightly.
+     */
+    async check(userId: string): Promise<QuotaCheck> {
+        if (!this.enabled) {
+            return { ok: true };
+        }
+
+        const usage = await this.getUsage(userId);
+        let remaining: number | undefined;
+
+        for (const period of PERIODS) {
+            const current = usage[period];
+            if (current.remaining === undefined) {
+                continue;
+            }
+
+            if (current.remaining <= 0) {
+                return {
+                    ok: false,
+                    period,
+                    remaining: 0,
+                    retryAfterSeconds: Math.max(1, Math.ceil((Date.parse(current.resetsAt) - Date.now()) / 1000))
+                };
+            }
+
+            remaining = remaining === undefined ? current.remaining : Math.min(remaining, current.remaining);
+        }
+
+        return { ok: true, remaining };
+    }
+
+    /**
+     * Add used tokens to the user's counters, returning the smallest remaining allowance
+     */
+    async record(userId: string, tokens: number): Promise<number | undefined> {
+        if (!this.enabled) {
+            return undefined;
+        }
+        if (!(tokens > 0)) {
+            return (await this.check(userId)).remaining;
+        }
+
+        const limits = this.limitsFor(userId);
+        const now = new Date();
+        let remaining: number | undefined;
+
+        for (const period of PERIODS) {
+            const { id, resetsAt } = periodBounds(period, now);
+            const ttlMs = resetsAt.getTime() - now.getTime() + COUNTER_GRACE_MS;
+
+            const used = await this.store.update<number, number>(`quota:${period}:${id}:${userId}`, (current) => {
+                const total = (current || 0) + tokens;
+                return { value: total, result: total };
+            }, ttlMs);
+
+            if (limits[period] > 0) {
+                const left = Math.max(0, limits[period] - used);
+                remaining = remaining === undefined ? left : Math.min(remaining, left);
+            }
+        }
+
+        return remaining;
+    }
+
+    /**
+     * Current usage and allowance per period
+     */
+    async getUsage(userId: string): Promise<Record<QuotaPeriod, QuotaUsage>> {
+        const limits = this.limitsFor(userId);
+        const now = new Date();
+        const usage = {} as Record<QuotaPeriod, QuotaUsage>;
+
+        for (const period of PERIODS) {
+            const { id, resetsAt } = periodBounds(period, now);
+            const entry = await this.store.get<number>(`quota:${period}:${id}:${userId}`);
+            const used = entry ? entry.value : 0;
+
+            usage[period] = {
+                used,
+                limit: limits[period],
+                remaining: limits[period] > 0 ? Math.max(0, limits[period] - used) : undefined,
+                resetsAt: resetsAt.toISOString()
+            };
+        }
+
+        return usage;
+    }
+
+    /**
+     * Get current configuration for monitoring
+     */
+    getStatus(): { enabled: boolean; defaults: QuotaLimits; overrideCount: number } {
+        return {
+            enabled: this.enabled,
+            defaults: this.defaults,
+            overrideCount: Object.keys(this.overrides).length
+        };
+    }
+}
+
+// Singleton instance
+export const quotaManager = new QuotaManager(
+    {
+        daily: config.QUOTA_DAILY_TOKENS,
+        monthly: config.QUOTA_MONTHLY_TOKENS
+    },
+    QuotaManager.parseOverrides(config.QUOTA_USER_OVERRIDES)
+);
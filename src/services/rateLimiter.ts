@@ -1,8 +1,12 @@
 /**
  * Token bucket rate limiter implementation for Azure OpenAI proxy
- * Supports both global and per-user rate limiting
+ * Supports both global and per-user rate limiting, by request count and by token budget
+ * Buckets live in the configured state store so limits can be shared across instances
  */
 
+import { StateStore, stateStore } from './stateStore';
+import { config } from './config';
+
 interface TokenBucket {
     tokens: number;
     capacity: number;
@@ -10,110 +14,237 @@ interface TokenBucket {
     lastRefill: number; // timestamp in ms
 }
 
+// Idle buckets are full again long before this, so letting them expire loses nothing
+const BUCKET_TTL_MS = 10 * 60 * 1000;
+
+/**
+ * Refill tokens based on elapsed time since last refill
+ */
+function refillBucket(bucket: TokenBucket): void {
+    const now = Date.now();
+    const deltaMs = now - bucket.lastRefill;
+
+    if (deltaMs > 0) {
+        // Calculate tokens to add: (elapsed seconds) * (tokens per second)
+        const tokensToAdd = (deltaMs / 1000) * bucket.refillRate;
+        bucket.tokens = Math.min(bucket.capacity, bucket.tokens + tokensToAdd);
+        bucket.lastRefill = now;
+    }
+}
+
+function newBucket(capacity: number, refillRate: number): TokenBucket {
+    return {
+        tokens: capacity,
+        capacity,
+        refillRate,
+        lastRefill: Date.now()
+    };
+}
+
 export class RateLimiter {
-    private buckets = new Map<string, TokenBucket>();
-    
     constructor(
         private globalRps: number = 8,
-        private userRps: number = 2
-    ) {
-        // Clean up old buckets every 5 minutes to prevent memory leaks
-        setInterval(() => this.cleanup(), 5 * 60 * 1000);
-    }
+        private userRps: number = 2,
+        private store: StateStore = stateStore
+    ) {}
 
     /**
      * Check if a request is allowed for the given key
      * @param key Rate limiting key (e.g., "global", "user:123")
      * @param cost Number of tokens to consume (default: 1)
+     * @param rps Requests per second for this key, overriding the configured user limit
      * @returns true if allowed, false if rate limited
      */
-    allow(key: string, cost: number = 1): boolean {
-        const bucket = this.getBucket(key);
-        this.refillBucket(bucket);
-        
-        if (bucket.tokens >= cost) {
-            bucket.tokens -= cost;
-            return true;
-        }
-        
-        return false;
+    async allow(key: string, cost: number = 1, rps?: number): Promise<boolean> {
+        return this.store.update<TokenBucket, boolean>(`ratelimit:${key}`, (current) => {
+            const capacity = rps ?? (key === 'global' ? this.globalRps : this.userRps);
+            const bucket = current || newBucket(capacity, capacity);
+            refillBucket(bucket);
+
+            if (bucket.tokens >= cost) {
+                bucket.tokens -= cost;
+                return { value: bucket, result: true };
+            }
+
+            // Nothing to write: refilling again later gives the same result
+            return { result: false };
+        }, BUCKET_TTL_MS);
     }
 
     /**
-     * Get or create a bucket for the given key
+     * Get current status for debugging
+     * Aggregates only: diagnostics is anonymous, so per-user bucket keys are never listed,
+     * and only the global bucket is read so a diagnostics call costs a list and one read
      */
-    private getBucket(key: string): TokenBucket {
-        let bucket = this.buckets.get(key);
-        
-        if (!bucket) {
-            const isGlobal = key === 'global';
-            const capacity = isGlobal ? this.globalRps : this.userRps;
-            
-            bucket = {
-                tokens: capacity,
-                capacity,
-                refillRate: capacity, // tokens per second
-                lastRefill: Date.now()
-            };
-            
-            this.buckets.set(key, bucket);
+    async getStatus(): Promise<{
+        store: string;
+        bucketCount: number;
+        userBucketCount: number;
+        global?: { tokens: number; capacity: number; refillRate: number };
+    }> {
+        const keys = await this.store.list('ratelimit:');
+        const entry = keys.includes('ratelimit:global') ? await this.store.get<TokenBucket>('ratelimit:global') : null;
+        if (entry) {
+            refillBucket(entry.value); // Update before reporting
         }
-        
-        return bucket;
+
+        return {
+            store: this.store.kind,
+            bucketCount: keys.length,
+            userBucketCount: keys.filter(key => key !== 'ratelimit:global').length,
+            global: entry
+                ? { tokens: Math.floor(entry.value.tokens), capacity: entry.value.capacity, refillRate: entry.value.refillRate }
+                : undefined
+        };
+    }
+}
+
+// Singleton instance
+export const globalRateLimiter = new RateLimiter(
+    config.RATE_LIMIT_GLOBAL_RPS,
+    config.RATE_LIMIT_USER_RPS
+);
+
+
+/**
+ * Result of reserving tokens against the per-minute budgets.
+ * settle() must be called once the actual usage is known (0 for failed requests).
+ */
+export interface TokenReservation {
+    ok: boolean;
+    scope?: 'global' | 'user';
+    retryAfterSeconds?: number;
+    reserved: number;
+    settle(actualTokens: number | undefined): Promise<void>;
+}
+
+/**
+ * Token-per-minute budgets matching Azure OpenAI's TPM quota model.
+ * An estimated cost is reserved before the upstream call and reconciled
+ * against usage.total_tokens afterwards. A limit of 0 disables that budget.
+ */
+export class TokenBudgetLimiter {
+    constructor(
+        private globalTpm: number = 0,
+        private userTpm: number = 0,
+        private store: StateStore = stateStore
+    ) {}
+
+    get enabled(): boolean {
+        return this.globalTpm > 0 || this.userTpm > 0;
     }
 
     /**
-     * Refill tokens based on elapsed time since last refill
+     * Reserve an estimated token cost for the user; both budgets must have room.
+     * Estimates larger than a budget are capped at its capacity so a full bucket can always serve one request.
+     * @param userTpm Tokens per minute for this user, overriding the configured user budget
      */
-    private refillBucket(bucket: TokenBucket): void {
-        const now = Date.now();
-        const deltaMs = now - bucket.lastRefill;
-        
-        if (deltaMs > 0) {
-            // Calculate tokens to add: (elapsed seconds) * (tokens per second)
-            const tokensToAdd = (deltaMs / 1000) * bucket.refillRate;
-            bucket.tokens = Math.min(bucket.capacity, bucket.tokens + tokensToAdd);
-            bucket.lastRefill = now;
+    async reserve(userId: string, estimatedTokens: number, userTpm: number = this.userTpm): Promise<TokenReservation> {
+        const noop = async () => {};
+        if (this.globalTpm <= 0 && userTpm <= 0) {
+            return { ok: true, reserved: 0, settle: noop };
         }
+
+        const budgets: Array<{ key: string; tokensPerMinute: number; scope: 'global' | 'user' }> = [];
+        if (this.globalTpm > 0) {
+            budgets.push({ key: 'tpm:global', tokensPerMinute: this.globalTpm, scope: 'global' });
+        }
+        if (userTpm > 0) {
+            budgets.push({ key: `tpm:user:${userId}`, tokensPerMinute: userTpm, scope: 'user' });
+        }
+
+        // Charge budgets one at a time, undoing earlier charges if a later one is exhausted
+        const charges: Array<{ key: string; amount: number }> = [];
+        for (const budget of budgets) {
+            const amount = Math.min(estimatedTokens, budget.tokensPerMinute);
+            const retryAfterSeconds = await this.store.update<TokenBucket, number>(budget.key, (current) => {
+                const bucket = current || newBucket(budget.tokensPerMinute, budget.tokensPerMinute / 60);
+                refillBucket(bucket);
+
+                if (bucket.tokens < amount) {
+                    return { result: Math.max(1, Math.ceil((amount - bucket.tokens) / bucket.refillRate)) };
+                }
+
+                bucket.tokens -= amount;
+                return { value: bucket, result: 0 };
+            }, BUCKET_TTL_MS);
+
+            if (retryAfterSeconds > 0) {
+                await Promise.all(charges.map(charge => this.adjust(charge.key, charge.amount)));
+                return { ok: false, scope: budget.scope, retryAfterSeconds, reserved: 0, settle: noop };
+            }
+
+            charges.push({ key: budget.key, amount });
+        }
+
+        let settled = false;
+        return {
+            ok: true,
+            reserved: estimatedTokens,
+            settle: async (actualTokens: number | undefined) => {
+                if (settled) {
+                    return;
+                }
+                settled = true;
+
+                // Unknown usage (e.g. a stream without a usage chunk) keeps the estimate
+                if (actualTokens === undefined) {
+                    return;
+                }
+
+                // Refund over-estimates, charge under-estimates
+                await Promise.all(charges.map(charge => this.adjust(charge.key, charge.amount - actualTokens)));
+            }
+        };
     }
 
     /**
-     * Clean up old buckets to prevent memory leaks
+     * Add tokens back to a bucket (negative to charge more); a bucket may go into debt.
+     * Failures are ignored: keeping the reservation errs on the side of limiting.
      */
-    private cleanup(): void {
-        const cutoffTime = Date.now() - (10 * 60 * 1000); // 10 minutes ago
-        
-        for (const [key, bucket] of this.buckets.entries()) {
-            if (bucket.lastRefill < cutoffTime) {
-                this.buckets.delete(key);
-            }
+    private async adjust(key: string, delta: number): Promise<void> {
+        try {
+            await this.store.update<TokenBucket, void>(key, (current) => {
+                if (!current) {
+                    return { result: undefined };
+                }
+                refillBucket(current);
+                current.tokens = Math.min(current.capacity, current.tokens + delta);
+                return { value: current, result: undefined };
+            }, BUCKET_TTL_MS);
+        } catch {
+            // See above
         }
     }
 
     /**
-     * Get current status for debugging
+     * Get current status for debugging; aggregates only, like RateLimiter.getStatus
      */
-    getStatus(): { bucketCount: number; buckets: Record<string, any> } {
-        const buckets: Record<string, any> = {};
-        
-        for (const [key, bucket] of this.buckets.entries()) {
-            this.refillBucket(bucket); // Update before reporting
-            buckets[key] = {
-                tokens: Math.floor(bucket.tokens),
-                capacity: bucket.capacity,
-                refillRate: bucket.refillRate
-            };
+    async getStatus(): Promise<{
+        globalTpm: number;
+        userTpm: number;
+        bucketCount: number;
+        userBucketCount: number;
+        global?: { tokens: number; capacity: number };
+    }> {
+        const keys = await this.store.list('tpm:');
+        const entry = keys.includes('tpm:global') ? await this.store.get<TokenBucket>('tpm:global') : null;
+        if (entry) {
+            refillBucket(entry.value);
         }
-        
+
         return {
-            bucketCount: this.buckets.size,
-            buckets
+            globalTpm: this.globalTpm,
+            userTpm: this.userTpm,
+            bucketCount: keys.length,
+            userBucketCount: keys.filter(key => key !== 'tpm:global').length,
+            global: entry ? { tokens: Math.floor(entry.value.tokens), capacity: entry.value.capacity } : undefined
         };
     }
 }
 
 // Singleton instance
-export const globalRateLimiter = new RateLimiter(
-    Number(process.env.RATE_LIMIT_GLOBAL_RPS || 8),
-    Number(process.env.RATE_LIMIT_USER_RPS || 2)
-);
\ No newline at end of file
+export const tokenBudgetLimiter = new TokenBudgetLimiter(
+    config.RATE_LIMIT_GLOBAL_TPM,
+    config.RATE_LIMIT_USER_TPM
+);
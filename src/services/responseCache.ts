@@ -0,0 +1,129 @@
+/**
+ * Opt-in cache of chat completion responses for deterministic requests
+ * Requests are keyed by a SHA-256 hash of the deployment and sanitized request,
+ * so only byte-for-byte identical prompts share an entry
+ */
+
+import { createHash } from 'crypto';
+import { ChatCompletionRequest, ChatCompletionResponse } from '../types';
+import { config } from './config';
+
+interface CacheEntry {
+    response: ChatCompletionResponse;
+    bytes: number;
+    expiresAt: number;
+}
+
+export type CacheOutcome = 'HIT' | 'MISS' | 'BYPASS';
+
+export class ResponseCache {
+    // Map iteration order doubles as LRU order: oldest first
+    private entries = new Map<string, CacheEntry>();
+    private totalBytes = 0;
+    private stats = { hits: 0, misses: 0, bypasses: 0, stores: 0, evictions: 0, skippedTooLarge: 0 };
+
+    constructor(
+        private enabled: boolean = false,
+        private ttlMs: number = 60 * 60 * 1000,
+        private maxEntries: number = 500,
+        private maxEntryBytes: number = 256 * 1024
+    ) {}
+
+    /**
+     * Whether a request is eligible for caching: enabled, not streamed,
+     * temperature explicitly 0, and no images fetched from mutable URLs
+     */
+    isCacheable(request: ChatCompletionRequest): boolean {
+        if (!this.enabled || request.stream || request.temperature !== 0) {
+            return false;
+        }
+
+        return !request.messages.some(message => Array.isArray(message.content) &&
+            message.content.some(part => part.type === 'image_url' && !part.image_url.url.startsWith('data:')));
+    }
+
+    /**
+     * Cache key for a deployment and sanitized request
+     */
+    keyFor(deployment: string, apiVersion: string | undefined, request: ChatCompletionRequest): string {
+        return createHash('sha256')
+            .update(JSON.stringify({ deployment, apiVersion: apiVersion || null, request }))
+            .digest('hex');
+    }
+
+    get(key: string): ChatCompletionResponse | undefined {
+        const entry = this.entries.get(key);
+
+        if (!entry || entry.expiresAt <= Date.now()) {
+            if (entry) {
+                this.remove(key, entry);
+            }
+            this.stats.misses++;
+            return undefined;
+        }
+
+        // Move to the most recently used position
+        this.entries.delete(key);
+        this.entries.set(key, entry);
+        this.stats.hits++;
+        return entry.response;
+    }
+
+    set(key: string, response: ChatCompletionResponse): void {
+        const bytes = Buffer.byteLength(JSON.stringify(response));
+        if (bytes > this.maxEntryBytes) {
+            this.stats.skippedTooLarge++;
+            return;
+        }
+
+        const existing = this.entries.get(key);
+        if (existing) {
+            this.remove(key, existing);
+        }
+
+        this.entries.set(key, { response, bytes, expiresAt: Date.now() + this.ttlMs });
+        this.totalBytes += bytes;
+        this.stats.stores++;
+
+        while (this.entries.size > this.maxEntries) {
+            const [oldestKey, oldest] = this.entries.entries().next().value as [string, CacheEntry];
+            this.remove(oldestKey, oldest);
+            this.stats.evictions++;
+        }
+    }
+
+    recordBypass(): void {
+        this.stats.bypasses++;
+    }
+
+    private remove(key: string, entry: CacheEntry): void {
+        this.entries.delete(key);
+        this.totalBytes -= entry.bytes;
+    }
+
+    /**
+     * Get current status for monitoring
+     */
+    getStatus(): Record<string, any> {
+        const lookups = this.stats.hits + this.stats.misses;
+
+        return {
+            enabled: this.enabled,
+            ttlMs: this.ttlMs,
+            maxEntries: this.maxEntries,
+            maxEntryBytes: this.maxEntryBytes,
+            entries: this.entries.size,
+            bytes: this.totalBytes,
+            ...this.stats,
+            hitRate: lookups > 0 ? Number((this.stats.hits / lookups).toFixed(3)) : 0
+        };
+    }
+}
+
+// Singleton instance
+export const responseCache = new ResponseCache(
+    config.RESPONSE_CACHE_ENABLED,
+    config.RESPONSE_CACHE_TTL_MS,
+    config.RESPONSE_CACHE_MAX_ENTRIES,
+    config.RESPONSE_CACHE_MAX_ENTRY_BYTES
+);
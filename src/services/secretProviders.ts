@@ -0,0 +1,385 @@
+/**
+ * Secret providers
+ * Every secret the app needs is read through one ordered chain of providers:
+ * Key Vault, environment variables and a local JSON or .env file for offline
+ * development. The first provider holding a secret supplies it; a provider that
+ * fails is logged and skipped, so a Key Vault outage falls through to the next
+ * one. The order comes from SECRET_PROVIDERS. Diagnostics show which provider
+ * supplied each secret, never the values.
+ */
+
+import { promises as fs } from 'fs';
+import { KeyVaultService, SecretCache, SecretNotFoundError } from './keyVaultService';
+import { config, secretProviderOrder } from './config';
+import { Logger } from './logger';
+
+/**
+ * Where a secret may be found; a provider skips a secret it has no name for
+ */
+export interface SecretRef {
+    name?: string;  // Key Vault secret name, also looked up in the secret file
+    env?: string;   // Environment variable name, also looked up in the secret file
+}
+
+export interface SecretProvider {
+    readonly name: string;
+
+    /**
+     * Resolves undefined when the provider does not hold the secret, rejects when the provider itself failed
+     */
+    getSecret(ref: SecretRef): Promise<string | undefined>;
+
+    /**
+     * Forget anything cached for the secret, e.g. after the service it unlocks rejected it
+     */
+    invalidate(ref: SecretRef): void;
+
+    getStatus(): Record<string, unknown>;
+}
+
+/**
+ * Thrown when no provider in the chain supplied a secret; errors holds each failed provider's message
+ */
+export class SecretUnavailableError extends Error {
+    constructor(public secret: string, public errors: Record<string, string>) {
+        super(Object.keys(errors).length > 0
+            ? `Secret ${secret} is not available (${Object.entries(errors).map(([provider, message]) => `${provider}: ${message}`).join('; ')})`
+            : `Secret ${secret} is not configured`);
+    }
+}
+
+// Name used for a secret in logs and diagnostics
+function secretLabel(ref: SecretRef): string {
+    return ref.name || ref.env || '(unnamed)';
+}
+
+/**
+ * Key Vault, through the shared secret cache
+ * Secrets the vault does not hold are remembered for the cache TTL so every
+ * request does not pay for a 404 before falling through to the next provider.
+ */
+export class KeyVaultSecretProvider implements SecretProvider {
+    readonly name = 'keyvault';
+    private missing = new Map<string, number>();
+
+    constructor(private cache: SecretCache, private missingTtlMs: number) {}
+
+    async getSecret(ref: SecretRef): Promise<string | undefined> {
+        if (!ref.name) {
+            return undefined;
+        }
+        if ((this.missing.get(ref.name) || 0) > Date.now()) {
+            return undefined;
+        }
+
+        try {
+            return await this.cache.getSecret(ref.name);
+        } catch (error) {
+            if (error instanceof SecretNotFoundError) {
+                this.missing.set(ref.name, Date.now() + this.missingTtlMs);
+                return undefined;
+            }
+            throw error;
+        }
+    }
+
+    invalidate(ref: SecretRef): void {
+        if (ref.name) {
+            this.missing.delete(ref.name);
+            this.cache.invalidate(ref.name);
+        }
+    }
+
+    getStatus(): Record<string, unknown> {
+        const now = Date.now();
+        return {
+            ...this.cache.getStatus(),
+            notFound: [...this.missing].filter(([, until]) => until > now).map(([name]) => name)
+        };
+    }
+}
+
+export class EnvironmentSecretProvider implements SecretProvider {
+    readonly name = 'env';
+
+    constructor(private env: Record<string, string | undefined> = process.env) {}
+
+    async getSecret(ref: SecretRef): Promise<string | undefined> {
+        return (ref.env && this.env[ref.env]?.trim()) || undefined;
+    }
+
+    invalidate(): void {
+        // Environment variables only change on restart
+    }
+
+    getStatus(): Record<string, unknown> {
+        return {};
+    }
+}
+
+/**
+ * A local file of secrets for offline development
+ * A .env file holds KEY=VALUE lines; anything else is read as a flat JSON object.
+ * Entries match either the Key Vault name or the environment variable name. The
+ * file is read on first use and again after an invalidation; a missing file holds
+ * no secrets.
+ */
+export class FileSecretProvider implements SecretProvider {
+    readonly name = 'file';
+    private entries: Map<string, string> | null = null;
+    private loading: Promise<Map<string, string>> | null = null;
+    private found = false;
+
+    constructor(private path: string) {}
+
+    async getSecret(ref: SecretRef): Promise<string | undefined> {
+        const entries = await this.load();
+        return (ref.name && entries.get(ref.name)) || (ref.env && entries.get(ref.env)) || undefined;
+    }
+
+    invalidate(): void {
+        this.entries = null;
+    }
+
+    private load(): Promise<Map<string, string>> {
+        if (this.entries) {
+            return Promise.resolve(this.entries);
+        }
+        if (!this.loading) {
+            this.loading = this.read()
+                .then(entries => this.entries = entries)
+                .finally(() => { this.loading = null; });
+        }
+        return this.loading;
+    }
+
+    private async read(): Promise<Map<string, string>> {
+        let text: string;
+        try {
+            text = await fs.readFile(this.path, 'utf8');
+        } catch (error: any) {
+            if (error.code === 'ENOENT') {
+                this.found = false;
+                return new Map();
+            }
+            throw new Error(`Failed to read secret file ${this.path}: ${error.message}`);
+        }
+
+        this.found = true;
+        return this.path.endsWith('.env') ? parseDotEnv(text) : this.parseJson(text);
+    }
+
+    private parseJson(text: string): Map<string, string> {
+        let document: any;
+        try {
+            document = JSON.parse(text);
+        } catch (error: any) {
+            throw new Error(`Secret file ${this.path} is not valid JSON: ${error.message}`);
+        }
+        if (!document || typeof document !== 'object' || Array.isArray(document)) {
+            throw new Error(`Secret file ${this.path} must contain a JSON object`);
+        }
+
+        const entries = new Map<string, string>();
+        for (const [key, value] of Object.entries(document)) {
+            if (typeof value === 'string' && value) {
+                entries.set(key, value);
+            }
+        }
+        return entries;
+    }
+
+    getStatus(): Record<string, unknown> {
+        return {
+            path: this.path,
+            loaded: !!this.entries,
+            found: this.found,
+            entries: this.entries ? this.entries.size : undefined
+        };
+    }
+}
+
+/**
+ * Parse KEY=VALUE lines, allowing comments, an "export " prefix and quoted values
+ */
+export function parseDotEnv(text: string): Map<string, string> {
+    const entries = new Map<string, string>();
+    for (const rawLine of text.split(/\r?\n/)) {
+        const line = rawLine.trim().replace(/^export\s+/, '');
+        const separator = line.indexOf('=');
+        if (!line || line.startsWith('#') || separator < 1) {
+            continue;
+        }
+
+        const key = line.slice(0, separator).trim();
+        let value = line.slice(separator + 1).trim();
+        const quote = value[0];
+        if ((quote === '"' || quote === "'") && value.length > 1 && value.endsWith(quote)) {
+            value = value.slice(1, -1);
+            if (quote === '"') {
+                value = value.replace(/\\n/g, '\n');
+            }
+        } else {
+            value = value.replace(/\s+#.*$/, '');
+        }
+
+        if (value) {
+            entries.set(key, value);
+        }
+    }
+    return entries;
+}
+
+interface SecretSource {
+    provider?: string;               // Provider that supplied the secret; unset when none did
+    resolvedAt: number;
+    errors?: Record<string, string>; // Providers that failed during the lookup
+}
+
+/**
+ * Asks each provider in turn and remembers which one supplied each secret
+ */
+export class SecretProviderChain {
+    private sources = new Map<string, SecretSource>();
+    private metrics = { lookups: 0, misses: 0, providerErrors: 0, invalidations: 0 };
+    private logger = new Logger();
+
+    constructor(private providers: SecretProvider[]) {}
+
+    /**
+     * Get a secret from the first provider holding it
+     * Throws SecretUnavailableError when none does
+     */
+    async getSecret(ref: SecretRef): Promise<string> {
+        const { value, errors } = await this.lookup(ref);
+        if (value === undefined) {
+            throw new SecretUnavailableError(secretLabel(ref), errors);
+        }
+        return value;
+    }
+
+    /**
+     * Like getSecret, but resolves undefined when no provider holds the secret
+     */
+    async findSecret(ref: SecretRef): Promise<string | undefined> {
+        return (await this.lookup(ref)).value;
+    }
+
+    /**
+     * Drop the secret from every provider's cache so the next read looks it up again
+     */
+    invalidate(ref: SecretRef): void {
+        this.metrics.invalidations++;
+        for (const provider of this.providers) {
+            provider.invalidate(ref);
+        }
+    }
+
+    private async lookup(ref: SecretRef): Promise<{ value?: string; errors: Record<string, string> }> {
+        const secret = secretLabel(ref);
+        const errors: Record<string, string> = {};
+        this.metrics.lookups++;
+
+        for (const provider of this.providers) {
+            try {
+                const value = await provider.getSecret(ref);
+                if (value) {
+                    this.record(secret, provider.name, errors);
+                    return { value, errors };
+                }
+            } catch (error: any) {
+                this.metrics.providerErrors++;
+                errors[provider.name] = error.message;
+                this.logger.warn('Secret provider failed, trying the next one', {
+                    secret,
+                    provider: provider.name,
+                    error: error.message
+                });
+            }
+        }
+
+        this.metrics.misses++;
+        this.record(secret, undefined, errors);
+        return { errors };
+    }
+
+    private record(secret: string, provider: string | undefined, errors: Record<string, string>): void {
+        const previous = this.sources.get(secret);
+        if (previous && previous.provider !== provider) {
+            this.logger.info('Secret provider changed', { secret, from: previous.provider || 'none', to: provider || 'none' });
+        }
+        this.sources.set(secret, {
+            provider,
+            resolvedAt: Date.now(),
+            ...(Object.keys(errors).length > 0 && { errors })
+        });
+    }
+
+    /**
+     * Get current status for monitoring; secret values are never included
+     */
+    getStatus(): {
+        order: string[];
+        metrics: { lookups: number; misses: number; providerErrors: number; invalidations: number };
+        providers: Record<string, Record<string, unknown>>;
+        secrets: Record<string, { provider: string; resolvedAt: string; errors?: Record<string, string> }>;
+    } {
+        const providers: Record<string, Record<string, unknown>> = {};
+        for (const provider of this.providers) {
+            providers[provider.name] = provider.getStatus();
+        }
+
+        const secrets: Record<string, { provider: string; resolvedAt: string; errors?: Record<string, string> }> = {};
+        for (const [secret, source] of this.sources) {
+            secrets[secret] = {
+                provider: source.provider || 'none',
+                resolvedAt: new Date(source.resolvedAt).toISOString(),
+                errors: source.errors
+            };
+        }
+
+        return {
+            order: this.providers.map(provider => provider.name),
+            metrics: { ...this.metrics },
+            providers,
+            secrets
+        };
+    }
+}
+
+// Secrets shared by several modules
+export const SECRET_REFS = {
+    openAIApiKey: { name: config.AZURE_OPENAI_API_KEY_SECRET_NAME, env: 'AZURE_OPENAI_API_KEY' },
+    storageConnectionString: { name: 'azure-storage-connection-string', env: 'AZURE_STORAGE_CONNECTION_STRING' },
+    storageAccountKey: { env: 'AZURE_STORAGE_ACCOUNT_KEY' },
+    proxyTokenSigningKey: { name: config.PROXY_TOKEN_SIGNING_KEY_SECRET_NAME, env: 'PROXY_TOKEN_SIGNING_KEY' }
+};
+
+function createProvider(name: string): SecretProvider | null {
+    switch (name) {
+        case 'keyvault':
+            // Listed by default, but only usable once a vault is configured
+            return config.KEY_VAULT_URL
+                ? new KeyVaultSecretProvider(
+                    new SecretCache(new KeyVaultService(config.KEY_VAULT_URL), {
+                        ttlMs: config.SECRET_CACHE_TTL_MS,
+                        refreshAheadMs: config.SECRET_CACHE_REFRESH_AHEAD_MS,
+                        maxStaleMs: config.SECRET_CACHE_MAX_STALE_MS,
+                        retryMs: config.SECRET_CACHE_RETRY_MS
+                    }),
+                    config.SECRET_CACHE_TTL_MS
+                )
+                : null;
+        case 'env':
+            return new EnvironmentSecretProvider();
+        case 'file':
+            return new FileSecretProvider(config.SECRET_FILE);
+        default:
+            return null;
+    }
+}
+
+// Singleton chain in the configured order
+export const secretProviders = new SecretProviderChain(
+    secretProviderOrder(config).map(createProvider).filter((provider): provider is SecretProvider => provider !== null)
+);
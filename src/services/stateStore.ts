@@ -0,0 +1,278 @@
+/**
+ * Pluggable key/value state shared by rate limiting and idempotency
+ * The in-memory store is per instance; the Blob Storage store is shared by
+ * every instance of the Function App and uses ETags for optimistic concurrency
+ */
+
+import { BlobStorageService, getBlobStorageConfig } from './blobStorageService';
+import { config } from './config';
+
+export interface StoredState<T> {
+    value: T;
+    etag: string;
+}
+
+export interface StateSetOptions {
+    ttlMs?: number;
+    ifMatch?: string;       // Only write if the current ETag matches
+    ifNoneMatch?: boolean;  // Only write if the key does not exist yet
+}
+
+/**
+ * Result of an update callback: the new value to store (omit to leave the
+ * entry unchanged) and the result to hand back to the caller
+ */
+export interface StateMutation<T, R> {
+    value?: T;
+    result: R;
+}
+
+export interface StateStore {
+    readonly kind: string;
+
+    get<T>(key: string): Promise<StoredState<T> | null>;
+
+    /**
+     * Write a value, returning false when a precondition fails
+     */
+    set<T>(key: string, value: T, options?: StateSetOptions): Promise<boolean>;
+
+    /**
+     * Atomically read, modify and write a value
+     */
+    update<T, R>(key: string, mutate: (current: T | null) => StateMutation<T, R>, ttlMs?: number): Promise<R>;
+
+    delete(key: string): Promise<void>;
+
+    list(prefix: string, limit?: number): Promise<string[]>;
+}
+
+interface MemoryEntry {
+    value: any;
+    etag: string;
+    expiresAt?: number;
+}
+
+export class MemoryStateStore implements StateStore {
+    readonly kind = 'memory';
+    private entries = new Map<string, MemoryEntry>();
+    private version = 0;
+
+    constructor() {
+        // Clean up expired entries every 5 minutes to prevent memory leaks; the timer alone does not keep the process alive
+        setInterval(() => this.cleanup(), 5 * 60 * 1000).unref();
+    }
+
+    async get<T>(key: string): Promise<StoredState<T> | null> {
+        const entry = this.getLive(key);
+        return entry ? { value: entry.value, etag: entry.etag } : null;
+    }
+
+    async set<T>(key: string, value: T, options: StateSetOptions = {}): Promise<boolean> {
+        const current = this.getLive(key);
+
+        if (options.ifNoneMatch && current) {
+            return false;
+        }
+        if (options.ifMatch && current?.etag !== options.ifMatch) {
+            return false;
+        }
+
+        this.write(key, value, options.ttlMs);
+        return true;
+    }
+
+    async update<T, R>(key: string, mutate: (current: T | null) => StateMutation<T, R>, ttlMs?: number): Promise<R> {
+        // Read and write happen in the same tick, so no other request can interleave
+        const current = this.getLive(key);
+        const mutation = mutate(current ? current.value : null);
+
+        if (mutation.value !== undefined) {
+            this.write(key, mutation.value, ttlMs);
+        }
+
+        return mutation.result;
+    }
+
+    async delete(key: string): Promise<void> {
+        this.entries.delete(key);
+    }
+
+    async list(prefix: string, limit: number = 100): Promise<string[]> {
+        const keys: string[] = [];
+        for (const key of this.entries.keys()) {
+            if (keys.length >= limit) {
+                break;
+            }
+            if (key.startsWith(prefix) && this.getLive(key)) {
+                keys.push(key);
+            }
+        }
+        return keys;
+    }
+
+    private write(key: string, value: any, ttlMs?: number): void {
+        this.entries.set(key, {
+            value,
+            etag: String(++this.version),
+            expiresAt: ttlMs ? Date.now() + ttlMs : undefined
+        });
+    }
+
+    private getLive(key: string): MemoryEntry | undefined {
+        const entry = this.entries.get(key);
+        if (entry?.expiresAt && entry.expiresAt <= Date.now()) {
+            this.entries.delete(key);
+            return undefined;
+        }
+        return entry;
+    }
+
+    private cleanup(): void {
+        const now = Date.now();
+        for (const [key, entry] of this.entries.entries()) {
+            if (entry.expiresAt && entry.expiresAt <= now) {
+                this.entries.delete(key);
+            }
+        }
+    }
+}
+
+// Body of each state blob
+interface BlobStateDocument {
+    value: any;
+    expiresAt?: number;
+}
+
+export class BlobStateStore implements StateStore {
+    readonly kind = 'blob';
+    private servicePromise: Promise<BlobStorageService> | null = null;
+
+    /**
+     * @param createService Creates the service for the state container; called once on first use
+     * @param maxAttempts Optimistic concurrency attempts before update gives up
+     */
+    constructor(
+        private createService: () => Promise<BlobStorageService>,
+        private maxAttempts: number = 10
+    ) {}
+
+    async get<T>(key: string): Promise<StoredState<T> | null> {
+        const service = await this.getService();
+        const blobName = this.toBlobName(key);
+
+        let document: BlobStateDocument;
+        let etag: string;
+        try {
+            const blob = await service.downloadBlob(blobName);
+            document = JSON.parse(blob.content);
+            etag = blob.etag;
+        } catch (error) {
+            if (error.statusCode === 404) {
+                return null;
+            }
+            throw error;
+        }
+
+        if (document.expiresAt && document.expiresAt <= Date.now()) {
+            // Expired entries are removed lazily; a lifecycle policy can sweep the rest.
+            // The ETag condition keeps a write made since the read from being deleted
+            await service.deleteBlob(blobName, { ifMatch: etag });
+            return null;
+        }
+
+        return { value: document.value, etag };
+    }
+
+    async set<T>(key: string, value: T, options: StateSetOptions = {}): Promise<boolean> {
+        const service = await this.getService();
+        const document: BlobStateDocument = {
+            value,
+            expiresAt: options.ttlMs ? Date.now() + options.ttlMs : undefined
+        };
+
+        const conditions = options.ifMatch ? { ifMatch: options.ifMatch }
+            : options.ifNoneMatch ? { ifNoneMatch: '*' }
+            : {};
+
+        const result = await service.uploadBlobConditional(this.toBlobName(key), JSON.stringify(document), conditions);
+        return result !== null;
+    }
+
+    async update<T, R>(key: string, mutate: (current: T | null) => StateMutation<T, R>, ttlMs?: number): Promise<R> {
+        for (let attempt = 1; attempt <= this.maxAttempts; attempt++) {
+            const current = await this.get<T>(key);
+            const mutation = mutate(current ? current.value : null);
+
+            if (mutation.value === undefined) {
+                return mutation.result;
+            }
+
+            const written = await this.set(key, mutation.value, current
+                ? { ttlMs, ifMatch: current.etag }
+                : { ttlMs, ifNoneMatch: true });
+
+            if (written) {
+                return mutation.result;
+            }
+
+            // Another instance won the race: back off briefly and re-read
+            await new Promise(resolve => setTimeout(resolve, Math.floor(Math.random() * 20 * attempt)));
+        }
+
+        throw new Error(`State update for ${key} failed after ${this.maxAttempts} attempts due to contention`);
+    }
+
+    async delete(key: string): Promise<void> {
+        const service = await this.getService();
+        await service.deleteBlob(this.toBlobName(key));
+    }
+
+    async list(prefix: string, limit: number = 100): Promise<string[]> {
+        const service = await this.getService();
+        const blobs = await service.listBlobs(this.toBlobName(prefix, false));
+        return blobs.slice(0, limit).map(blob => this.toKey(blob.name));
+    }
+
+    private getService(): Promise<BlobStorageService> {
+        if (!this.servicePromise) {
+            this.servicePromise = this.createService().then(async service => {
+                await service.ensureContainer();
+                return service;
+            });
+            // Allow a later call to retry if initialization failed
+            this.servicePromise.catch(() => { this.servicePromise = null; });
+        }
+        return this.servicePromise;
+    }
+
+    // "ratelimit:user:abc" -> "ratelimit/user/abc.json"; segments are URI-encoded
+    private toBlobName(key: string, withExtension: boolean = true): string {
+        const name = key.split(':').map(encodeURIComponent).join('/');
+        return withExtension ? `${name}.json` : name;
+    }
+
+    private toKey(blobName: string): string {
+        return blobName.replace(/\.json$/, '').split('/').map(decodeURIComponent).join(':');
+    }
+}
+
+/**
+ * Create the store selected by STATE_STORE ("memory" or "blob")
+ */
+export function createStateStore(): StateStore {
+    if (config.STATE_STORE === 'blob') {
+        return new BlobStateStore(async () => {
+            const blobConfig = await getBlobStorageConfig();
+            return new BlobStorageService({
+                ...blobConfig,
+                containerName: config.STATE_STORE_CONTAINER
+            });
+        });
+    }
+
+    return new MemoryStateStore();
+}
+
+// Singleton instance shared by rate limiting and idempotency
+export const stateStore = createStateStore();
@@ -0,0 +1,166 @@
+/**
+ * Server-sent events relay for streamed Azure OpenAI chat completions
+ * Passes upstream chunks through while watching for the usage block. The proxy
+ * always asks the upstream for usage; when the client did not, the usage-only
+ * chunk is dropped so the client sees the stream it asked for. An upstream that
+ * goes quiet for longer than the idle timeout is cancelled.
+ */
+
+import { ReadableStream, ReadableStreamReadResult } from 'stream/web';
+import { ChatCompletionChunk, ChatCompletionUsage } from '../types';
+
+export type StreamOutcome = 'completed' | 'cancelled' | 'error' | 'aborted';
+
+export interface StreamSummary {
+    outcome: StreamOutcome;
+    chunkCount: number;
+    bytes: number;
+    usage?: ChatCompletionUsage;
+    error?: string;
+}
+
+export interface RelayOptions {
+    stripUsage?: boolean;   // Drop the usage-only chunk; the usage is still reported in the summary
+    idleTimeoutMs?: number; // Abort when the upstream sends nothing for this long (default: no limit)
+}
+
+/**
+ * Wrap an upstream SSE body in a stream that can be returned to the client.
+ * onClose is called exactly once, whether the stream finishes, fails or the
+ * client disconnects, so callers can release resources held for the stream.
+ */
+export function relayEventStream(
+    upstream: ReadableStream<Uint8Array>,
+    onClose: (summary: StreamSummary) => void,
+    options: RelayOptions = {}
+): ReadableStream<Uint8Array> {
+    const reader = upstream.getReader();
+    const decoder = new TextDecoder();
+    const encoder = new TextEncoder();
+    const summary: StreamSummary = { outcome: 'completed', chunkCount: 0, bytes: 0 };
+    let pending = '';
+    let closed = false;
+    let dropBlankLine = false;
+    let idleTimedOut = false;
+
+    const finish = (outcome: StreamOutcome, error?: string) => {
+        if (closed) {
+            return;
+        }
+        closed = true;
+        summary.outcome = outcome;
+        summary.error = error;
+        onClose(summary);
+    };
+
+    // Next upstream read; rejects once the upstream has been idle for idleTimeoutMs
+    const read = (): Promise<ReadableStreamReadResult<Uint8Array>> => {
+        if (!options.idleTimeoutMs) {
+            return reader.read();
+        }
+        let timer: NodeJS.Timeout;
+        const idle = new Promise<never>((_, reject) => {
+            timer = setTimeout(() => {
+                idleTimedOut = true;
+                reject(new Error(`Upstream stream idle for ${options.idleTimeoutMs}ms`));
+            }, options.idleTimeoutMs);
+        });
+        return Promise.race([reader.read(), idle]).finally(() => clearTimeout(timer));
+    };
+
+    // Record usage from one complete line; returns false when the line is dropped
+    const inspectLine = (line: string): boolean => {
+        const trimmed = line.trim();
+        if (!trimmed) {
+            // The blank line ending a dropped event goes with it
+            const keep = !dropBlankLine;
+            dropBlankLine = false;
+            return keep;
+        }
+        if (!trimmed.startsWith('data:')) {
+            return true;
+        }
+
+        const data = trimmed.substring('data:'.length).trim();
+        if (data === '[DONE]') {
+            return true;
+        }
+
+        try {
+            const chunk = JSON.parse(data) as ChatCompletionChunk;
+            if (chunk.usage) {
+                summary.usage = chunk.usage;
+                if (options.stripUsage && chunk.choices?.length === 0) {
+                    dropBlankLine = true;
+                    return false;
+                }
+            }
+        } catch {
+            // Not our concern to validate upstream events, just relay them
+        }
+        summary.chunkCount++;
+        return true;
+    };
+
+    // Inspect complete lines, returning the text to relay; partial lines wait for the next chunk
+    const inspect = (text: string, final: boolean): string => {
+        pending += text;
+        const lines = pending.split('\n');
+        pending = final ? '' : lines.pop() || '';
+
+        let relayed = '';
+        lines.forEach((line, index) => {
+            if (inspectLine(line)) {
+                relayed += final && index === lines.length - 1 ? line : `${line}\n`;
+            }
+        });
+        return relayed;
+    };
+
+    return new ReadableStream<Uint8Array>({
+        async pull(controller) {
+            try {
+                // Keep reading until something is relayed, since a pull that enqueues nothing is not repeated
+                for (;;) {
+                    const { done, value } = await read();
+                    if (done) {
+                        const rest = inspect(decoder.decode(), true);
+                        if (options.stripUsage && rest) {
+                            controller.enqueue(encoder.encode(rest));
+                        }
+                        controller.close();
+                        finish('completed');
+                        return;
+                    }
+
+                    summary.bytes += value.byteLength;
+                    const relayed = inspect(decoder.decode(value, { stream: true }), false);
+                    if (!options.stripUsage) {
+                        controller.enqueue(value);
+                        return;
+                    }
+                    if (relayed) {
+                        controller.enqueue(encoder.encode(relayed));
+                        return;
+                    }
+                }
+            } catch (error: any) {
+                controller.error(error);
+                if (idleTimedOut) {
+                    // Stop the stalled upstream so it does not hold the connection
+                    reader.cancel(error).catch(() => {});
+                }
+                finish(idleTimedOut ? 'aborted' : 'error', error?.message);
+            }
+        },
+
+        async cancel(reason) {
+            finish('cancelled');
+            try {
+                await reader.cancel(reason);
+            } catch {
+                // Upstream already closed
+            }
+        }
+    });
+}
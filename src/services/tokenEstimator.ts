@@ -0,0 +1,71 @@
+/**
+ * Rough token cost estimates used to reserve token budgets before a request
+ * is sent upstream. Reconciled with the real usage block afterwards, so these
+ * only need to be in the right ballpark.
+ */
+
+import { ChatCompletionRequest, ChatMessage, EmbeddingsRequest } from '../types';
+import { config } from './config';
+
+// Roughly 4 characters per token for English text
+const CHARS_PER_TOKEN = 4;
+
+// Per-message framing overhead in the chat format
+const MESSAGE_OVERHEAD_TOKENS = 4;
+
+// Azure OpenAI charges 85 tokens for a low-detail image and up to ~1100 for high detail
+const LOW_DETAIL_IMAGE_TOKENS = 85;
+const DEFAULT_IMAGE_TOKENS = 765;
+
+// Completion allowance when the client does not set max_tokens
+const DEFAULT_COMPLETION_TOKENS = config.TOKEN_ESTIMATE_DEFAULT_COMPLETION;
+
+function textTokens(text: string | undefined | null): number {
+    return text ? Math.ceil(text.length / CHARS_PER_TOKEN) : 0;
+}
+
+function messageTokens(message: ChatMessage): number {
+    let tokens = MESSAGE_OVERHEAD_TOKENS;
+
+    if (typeof message.content === 'string') {
+        tokens += textTokens(message.content);
+    } else if (Array.isArray(message.content)) {
+        for (const part of message.content) {
+            if (part.type === 'text') {
+                tokens += textTokens(part.text);
+            } else {
+                const detail = part.type === 'image_url' ? part.image_url.detail : part.image_blob.detail;
+                tokens += detail === 'low' ? LOW_DETAIL_IMAGE_TOKENS : DEFAULT_IMAGE_TOKENS;
+            }
+        }
+    }
+
+    for (const call of message.tool_calls || []) {
+        tokens += textTokens(call.function.name) + textTokens(call.function.arguments);
+    }
+
+    return tokens;
+}
+
+/**
+ * Estimate the prompt tokens of a chat completion: messages and tool definitions
+ */
+export function estimateChatPromptTokens(request: ChatCompletionRequest): number {
+    const tokens = request.messages.reduce((sum, message) => sum + messageTokens(message), 0);
+    return request.tools ? tokens + textTokens(JSON.stringify(request.tools)) : tokens;
+}
+
+/**
+ * Estimate prompt plus completion tokens for a chat completion
+ */
+export function estimateChatTokens(request: ChatCompletionRequest): number {
+    return estimateChatPromptTokens(request) + (request.max_tokens ?? DEFAULT_COMPLETION_TOKENS);
+}
+
+/**
+ * Estimate tokens for an embeddings request (input only, there is no completion)
+ */
+export function estimateEmbeddingsTokens(request: EmbeddingsRequest): number {
+    const inputs = Array.isArray(request.input) ? request.input : [request.input];
+    return inputs.reduce((sum, input) => sum + textTokens(input), 0);
+}
@@ -0,0 +1,249 @@
+/**
+ * Usage ledger for upstream Azure OpenAI calls
+ * Keeps one counter document per day, deployment, user and operation in the state store,
+ * and aggregates them by user, deployment and day for reporting. Costs are
+ * computed from a per-deployment price table when the report is generated.
+ */
+
+import { StateStore, stateStore } from './stateStore';
+import { config } from './config';
+import { Logger } from './logger';
+
+export type UsageOperation = 'chat' | 'embeddings';
+export type UsageOutcome = 'success' | 'error' | 'cancelled';
+
+export interface UsageEvent {
+    userId: string;
+    deployment: string;
+    operation: UsageOperation;
+    outcome: UsageOutcome;
+    promptTokens?: number;
+    completionTokens?: number;
+    totalTokens?: number;
+    estimated?: boolean;        // Token counts are the pre-request estimate because no usage arrived
+    latencyMs: number;
+}
+
+// Price per 1,000 tokens for one deployment
+export interface DeploymentPrice {
+    prompt: number;
+    completion: number;
+}
+
+export interface UsageTotals {
+    requests: number;
+    errors: number;
+    cancelled: number;
+    promptTokens: number;
+    completionTokens: number;
+    totalTokens: number;
+    estimatedRequests: number;  // Requests whose tokens and cost are estimates
+    averageLatencyMs: number;
+    cost?: number;
+}
+
+export interface UsageQuery {
+    from: string;           // First day, YYYY-MM-DD (UTC)
+    to: string;             // Last day, inclusive
+    userId?: string;
+    deployment?: string;
+}
+
+export interface UsageReport {
+    from: string;
+    to: string;
+    currency: string;
+    totals: UsageTotals;
+    byUser: Record<string, UsageTotals>;
+    byDeployment: Record<string, UsageTotals>;
+    byDay: Record<string, UsageTotals>;
+}
+
+// Stored counters; latency is summed so averages can be combined
+interface UsageCounters {
+    requests: number;
+    errors: number;
+    cancelled: number;
+    promptTokens: number;
+    completionTokens: number;
+    totalTokens: number;
+    estimated?: number;         // Missing from documents written before estimates were recorded
+    latencyMsTotal: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function emptyCounters(): UsageCounters {
+    return { requests: 0, errors: 0, cancelled: 0, promptTokens: 0, completionTokens: 0, totalTokens: 0, estimated: 0, latencyMsTotal: 0 };
+}
+
+function addCounters(target: UsageCounters, source: UsageCounters): void {
+    target.requests += source.requests;
+    target.errors += source.errors;
+    target.cancelled += source.cancelled;
+    target.promptTokens += source.promptTokens;
+    target.completionTokens += source.completionTokens;
+    target.totalTokens += source.totalTokens;
+    target.estimated = (target.estimated || 0) + (source.estimated || 0);
+    target.latencyMsTotal += source.latencyMsTotal;
+}
+
+export class UsageLedger {
+    constructor(
+        private prices: Record<string, DeploymentPrice> = {},
+        private currency: string = 'USD',
+        private retentionDays: number = 400,
+        private store: StateStore = stateStore
+    ) {}
+
+    /**
+     * Parse the price table from USAGE_PRICES, e.g. {"gpt-4o": {"prompt": 0.0025, "completion": 0.01}}
+     */
+    static parsePrices(raw: string | undefined): Record<string, DeploymentPrice> {
+        if (!raw) {
+            return {};
+        }
+
+        try {
+            const value = JSON.parse(raw);
+            if (!value || typeof value !== 'object' || Array.isArray(value)) {
+                throw new Error('expected a JSON object keyed by deployment name');
+            }
+            for (const [deployment, price] of Object.entries<any>(value)) {
+                if (typeof price?.prompt !== 'number' || typeof price?.completion !== 'number') {
+                    throw new Error(`price for ${deployment} needs numeric prompt and completion`);
+                }
+            }
+            return value;
+        } catch (error: any) {
+            new Logger().error('Invalid USAGE_PRICES configuration, costs will not be reported', { error: error.message });
+            return {};
+        }
+    }
+
+    /**
+     * Add one upstream call to the ledger
+     */
+    async record(event: UsageEvent): Promise<void> {
+        const day = new Date().toISOString().substring(0, 10);
+        const key = `usage:${day}:${event.deployment}:${event.userId}:${event.operation}`;
+
+        await this.store.update<UsageCounters, void>(key, (current) => {
+            const counters = current || emptyCounters();
+            counters.requests++;
+            if (event.outcome === 'error') {
+                counters.errors++;
+            } else if (event.outcome === 'cancelled') {
+                counters.cancelled++;
+            }
+            counters.promptTokens += event.promptTokens || 0;
+            counters.completionTokens += event.completionTokens || 0;
+            counters.totalTokens += event.totalTokens || 0;
+            if (event.estimated) {
+                counters.estimated = (counters.estimated || 0) + 1;
+            }
+            counters.latencyMsTotal += event.latencyMs;
+            return { value: counters, result: undefined };
+        }, this.retentionDays * DAY_MS);
+    }
+
+    /**
+     * Aggregate the ledger over a range of days
+     */
+    async report(query: UsageQuery): Promise<UsageReport> {
+        const totals = emptyCounters();
+        const byUser: Record<string, UsageCounters> = {};
+        const byDeployment: Record<string, UsageCounters> = {};
+        const byDay: Record<string, UsageCounters> = {};
+        const costs = { total: 0, byUser: {} as Record<string, number>, byDay: {} as Record<string, number> };
+
+        for (let time = Date.parse(query.from); time <= Date.parse(query.to); time += DAY_MS) {
+            const day = new Date(time).toISOString().substring(0, 10);
+            const keys = await this.store.list(`usage:${day}:`, Number.MAX_SAFE_INTEGER);
+
+            for (const key of keys) {
+                const [, , deployment, userId] = key.split(':');
+                if ((query.userId && userId !== query.userId) || (query.deployment && deployment !== query.deployment)) {
+                    continue;
+                }
+
+                const entry = await this.store.get<UsageCounters>(key);
+                if (!entry) {
+                    continue;
+                }
+
+                const counters = entry.value;
+                addCounters(totals, counters);
+                addCounters(byUser[userId] = byUser[userId] || emptyCounters(), counters);
+                addCounters(byDeployment[deployment] = byDeployment[deployment] || emptyCounters(), counters);
+                addCounters(byDay[day] = byDay[day] || emptyCounters(), counters);
+
+                // Cost is priced per deployment, so user and day costs are summed from each entry
+                const cost = this.costOf(deployment, counters);
+                if (cost !== undefined) {
+                    costs.total += cost;
+                    costs.byUser[userId] = (costs.byUser[userId] || 0) + cost;
+                    costs.byDay[day] = (costs.byDay[day] || 0) + cost;
+                }
+            }
+        }
+
+        const priced = Object.keys(this.prices).length > 0;
+        const summarize = (counters: UsageCounters, cost: number | undefined): UsageTotals => ({
+            requests: counters.requests,
+            errors: counters.errors,
+            cancelled: counters.cancelled,
+            promptTokens: counters.promptTokens,
+            completionTokens: counters.completionTokens,
+            totalTokens: counters.totalTokens,
+            estimatedRequests: counters.estimated || 0,
+            averageLatencyMs: counters.requests > 0 ? Math.round(counters.latencyMsTotal / counters.requests) : 0,
+            cost: priced ? Number((cost || 0).toFixed(6)) : undefined
+        });
+
+        const mapValues = (source: Record<string, UsageCounters>, cost: (name: string, counters: UsageCounters) => number | undefined) => {
+            const result: Record<string, UsageTotals> = {};
+            for (const [name, counters] of Object.entries(source)) {
+                result[name] = summarize(counters, cost(name, counters));
+            }
+            return result;
+        };
+
+        return {
+            from: query.from,
+            to: query.to,
+            currency: this.currency,
+            totals: summarize(totals, costs.total),
+            byUser: mapValues(byUser, name => costs.byUser[name]),
+            byDeployment: mapValues(byDeployment, (name, counters) => this.costOf(name, counters)),
+            byDay: mapValues(byDay, name => costs.byDay[name])
+        };
+    }
+
+    private costOf(deployment: string, counters: UsageCounters): number | undefined {
+        const price = this.prices[deployment];
+        if (!price) {
+            return undefined;
+        }
+
+        return (counters.promptTokens * price.prompt + counters.completionTokens * price.completion) / 1000;
+    }
+
+    /**
+     * Get current configuration for monitoring
+     */
+    getStatus(): { currency: string; pricedDeployments: string[]; retentionDays: number } {
+        return {
+            currency: this.currency,
+            pricedDeployments: Object.keys(this.prices),
+            retentionDays: this.retentionDays
+        };
+    }
+}
+
+// Singleton instance
+export const usageLedger = new UsageLedger(
+    UsageLedger.parsePrices(config.USAGE_PRICES),
+    config.USAGE_CURRENCY,
+    config.USAGE_RETENTION_DAYS
+);
@@ -2,23 +2,50 @@
  * Input validation for Azure OpenAI proxy requests
  */
 
-import { ChatCompletionRequest, ChatMessage } from '../types';
+import { ChatCompletionRequest, ChatContentPart, ChatMessage, EmbeddingsRequest, ImageDetail, ToolCall, ToolChoice, ToolDefinition } from '../types';
+import { config } from './config';
 
-export interface ValidationResult {
+export interface ValidationResult<T = ChatCompletionRequest> {
     ok: boolean;
     error?: string;
-    sanitizedRequest?: ChatCompletionRequest;
+    sanitizedRequest?: T;
 }
 
+interface FieldResult<T> {
+    error?: string;
+    value?: T;
+}
+
+// Running totals of images across all messages of one request
+interface ImageUsage {
+    count: number;
+    bytes: number;
+}
+
+// Function names as accepted by Azure OpenAI
+const FUNCTION_NAME_PATTERN = /^[a-zA-Z0-9_-]{1,64}$/;
+
+const IMAGE_DATA_URL_PATTERN = /^data:image\/(png|jpeg|gif|webp);base64,/;
+const BASE64_PATTERN = /^[A-Za-z0-9+/]*={0,2}$/;
+const IMAGE_DETAILS: ImageDetail[] = ['auto', 'low', 'high'];
+
 export class RequestValidator {
-    private static readonly MAX_MESSAGES = Number(process.env.VALIDATION_MAX_MESSAGES || 50);
-    private static readonly MAX_MESSAGE_LENGTH = Number(process.env.VALIDATION_MAX_MESSAGE_LENGTH || 4000);
-    private static readonly MAX_TOKENS = Number(process.env.VALIDATION_MAX_TOKENS || 4000);
+    private static readonly MAX_MESSAGES = config.VALIDATION_MAX_MESSAGES;
+    private static readonly MAX_MESSAGE_LENGTH = config.VALIDATION_MAX_MESSAGE_LENGTH;
+    private static readonly MAX_TOKENS = config.VALIDATION_MAX_TOKENS;
+    private static readonly MAX_EMBEDDING_INPUTS = config.VALIDATION_MAX_EMBEDDING_INPUTS;
+    private static readonly MAX_EMBEDDING_INPUT_LENGTH = config.VALIDATION_MAX_EMBEDDING_INPUT_LENGTH;
+    private static readonly MAX_TOOLS = config.VALIDATION_MAX_TOOLS;
+    private static readonly MAX_TOOL_DEFINITION_LENGTH = config.VALIDATION_MAX_TOOL_DEFINITION_LENGTH;
+    private static readonly MAX_IMAGES = config.VALIDATION_MAX_IMAGES;
+    private static readonly MAX_IMAGE_BYTES = config.VALIDATION_MAX_IMAGE_BYTES;
+    private static readonly MAX_IMAGE_PAYLOAD_BYTES = config.VALIDATION_MAX_IMAGE_PAYLOAD_BYTES;
 
     /**
      * Validate and sanitize a chat completion request
+     * @param templateMessages Leading messages rendered from a prompt template; their length is not limited
      */
-    static validate(requestBody: any): ValidationResult {
+    static validate(requestBody: any, templateMessages: number = 0): ValidationResult {
         try {
             // Check if body exists
             if (!requestBody || typeof requestBody !== 'object') {
@@ -40,29 +67,14 @@ export class RequestValidator {
 
             // Validate messages
             const messages: ChatMessage[] = [];
+            const imageUsage: ImageUsage = { count: 0, bytes: 0 };
             for (let i = 0; i < requestBody.messages.length; i++) {
-                const msg = requestBody.messages[i];
-                
-                if (!msg || typeof msg !== 'object') {
-                    return { ok: false, error: `Message ${i} must be an object` };
-                }
-
-                if (!msg.role || !['system', 'user', 'assistant'].includes(msg.role)) {
-                    return { ok: false, error: `Message ${i} must have a valid role (system, user, assistant)` };
-                }
-
-                if (!msg.content || typeof msg.content !== 'string') {
-                    return { ok: false, error: `Message ${i} must have content as a string` };
-                }
-
-                if (msg.content.length > this.MAX_MESSAGE_LENGTH) {
-                    return { ok: false, error: `Message ${i} content too long (max: ${this.MAX_MESSAGE_LENGTH})` };
+                const maxLength = i < templateMessages ? Infinity : this.MAX_MESSAGE_LENGTH;
+                const result = this.validateMessage(requestBody.messages[i], i, imageUsage, maxLength);
+                if (result.error) {
+                    return { ok: false, error: result.error };
                 }
-
-                messages.push({
-                    role: msg.role,
-                    content: msg.content.trim()
-                });
+                messages.push(result.value!);
             }
 
             // Create sanitized request
@@ -124,9 +136,411 @@ export class RequestValidator {
                 }
             }
 
-            // Reject streaming for now as it complicates retry logic
-            if (requestBody.stream === true) {
-                return { ok: false, error: 'Streaming is not supported through the proxy' };
+            if (requestBody.stream !== undefined) {
+                if (typeof requestBody.stream !== 'boolean') {
+                    return { ok: false, error: 'stream must be a boolean' };
+                }
+                if (requestBody.stream) {
+                    sanitizedRequest.stream = true;
+                }
+            }
+
+            if (requestBody.stream_options !== undefined) {
+                if (!sanitizedRequest.stream) {
+                    return { ok: false, error: 'stream_options is only allowed when stream is true' };
+                }
+                const streamOptions = requestBody.stream_options;
+                if (!streamOptions || typeof streamOptions !== 'object' ||
+                    (streamOptions.include_usage !== undefined && typeof streamOptions.include_usage !== 'boolean')) {
+                    return { ok: false, error: 'stream_options must be an object with an optional boolean include_usage' };
+                }
+                if (streamOptions.include_usage !== undefined) {
+                    sanitizedRequest.stream_options = { include_usage: streamOptions.include_usage };
+                }
+            }
+
+            if (requestBody.tools !== undefined) {
+                const result = this.validateTools(requestBody.tools);
+                if (result.error) {
+                    return { ok: false, error: result.error };
+                }
+                sanitizedRequest.tools = result.value;
+            }
+
+            if (requestBody.tool_choice !== undefined) {
+                const result = this.validateToolChoice(requestBody.tool_choice, sanitizedRequest.tools);
+                if (result.error) {
+                    return { ok: false, error: result.error };
+                }
+                sanitizedRequest.tool_choice = result.value;
+            }
+
+            if (requestBody.parallel_tool_calls !== undefined) {
+                if (typeof requestBody.parallel_tool_calls !== 'boolean') {
+                    return { ok: false, error: 'parallel_tool_calls must be a boolean' };
+                }
+                if (!sanitizedRequest.tools) {
+                    return { ok: false, error: 'parallel_tool_calls requires tools' };
+                }
+                sanitizedRequest.parallel_tool_calls = requestBody.parallel_tool_calls;
+            }
+
+            return { ok: true, sanitizedRequest };
+
+        } catch (error: any) {
+            return { ok: false, error: `Validation error: ${error.message}` };
+        }
+    }
+
+    /**
+     * Validate a single chat message, including tool calls and tool results
+     */
+    private static validateMessage(msg: any, i: number, imageUsage: ImageUsage, maxLength: number): FieldResult<ChatMessage> {
+        if (!msg || typeof msg !== 'object') {
+            return { error: `Message ${i} must be an object` };
+        }
+
+        if (!msg.role || !['system', 'user', 'assistant', 'tool'].includes(msg.role)) {
+            return { error: `Message ${i} must have a valid role (system, user, assistant, tool)` };
+        }
+
+        // Assistant messages that request tool calls may omit content
+        const hasToolCalls = msg.role === 'assistant' && msg.tool_calls !== undefined;
+        const contentOptional = hasToolCalls && (msg.content === null || msg.content === undefined);
+
+        let content: ChatMessage['content'] = null;
+
+        if (msg.role === 'user' && Array.isArray(msg.content)) {
+            const result = this.validateContentParts(msg.content, i, imageUsage);
+            if (result.error) {
+                return { error: result.error };
+            }
+            content = result.value!;
+        } else if (!contentOptional) {
+            if (!msg.content || typeof msg.content !== 'string') {
+                return { error: `Message ${i} must have content as a string` };
+            }
+
+            if (msg.content.length > maxLength) {
+                return { error: `Message ${i} content too long (max: ${maxLength})` };
+            }
+
+            content = msg.content.trim();
+        }
+
+        const message: ChatMessage = {
+            role: msg.role,
+            content
+        };
+
+        if (msg.role === 'tool') {
+            if (!msg.tool_call_id || typeof msg.tool_call_id !== 'string' || msg.tool_call_id.length > 128) {
+                return { error: `Message ${i} must have a tool_call_id` };
+            }
+            message.tool_call_id = msg.tool_call_id;
+        } else if (msg.tool_call_id !== undefined) {
+            return { error: `Message ${i} tool_call_id is only allowed on tool messages` };
+        }
+
+        if (hasToolCalls) {
+            const result = this.validateToolCalls(msg.tool_calls, i);
+            if (result.error) {
+                return { error: result.error };
+            }
+            message.tool_calls = result.value;
+        } else if (msg.tool_calls !== undefined) {
+            return { error: `Message ${i} tool_calls are only allowed on assistant messages` };
+        }
+
+        return { value: message };
+    }
+
+    /**
+     * Validate the array-of-parts content format used for text and images
+     */
+    private static validateContentParts(parts: any[], i: number, imageUsage: ImageUsage): FieldResult<ChatContentPart[]> {
+        if (parts.length === 0) {
+            return { error: `Message ${i} content must not be empty` };
+        }
+
+        let textLength = 0;
+        const sanitized: ChatContentPart[] = [];
+        for (let j = 0; j < parts.length; j++) {
+            const part = parts[j];
+
+            if (!part || typeof part !== 'object') {
+                return { error: `Message ${i} content part ${j} must be an object` };
+            }
+
+            if (part.type === 'text') {
+                if (typeof part.text !== 'string' || part.text.trim().length === 0) {
+                    return { error: `Message ${i} content part ${j} must have text as a string` };
+                }
+
+                textLength += part.text.length;
+                if (textLength > this.MAX_MESSAGE_LENGTH) {
+                    return { error: `Message ${i} content too long (max: ${this.MAX_MESSAGE_LENGTH})` };
+                }
+
+                sanitized.push({ type: 'text', text: part.text.trim() });
+                continue;
+            }
+
+            if (part.type !== 'image_url' && part.type !== 'image_blob') {
+                return { error: `Message ${i} content part ${j} must be of type text, image_url or image_blob` };
+            }
+
+            imageUsage.count++;
+            if (imageUsage.count > this.MAX_IMAGES) {
+                return { error: `Too many images (max: ${this.MAX_IMAGES})` };
+            }
+
+            const source = part.type === 'image_url' ? part.image_url : part.image_blob;
+            if (!source || typeof source !== 'object') {
+                return { error: `Message ${i} content part ${j} must have an ${part.type} object` };
+            }
+
+            if (source.detail !== undefined && !IMAGE_DETAILS.includes(source.detail)) {
+                return { error: `Message ${i} content part ${j} detail must be auto, low or high` };
+            }
+
+            if (part.type === 'image_blob') {
+                if (typeof source.blobName !== 'string' || source.blobName.length === 0 ||
+                    source.blobName.length > 1024 || source.blobName.includes('..')) {
+                    return { error: `Message ${i} content part ${j} must have a valid blobName` };
+                }
+
+                sanitized.push({
+                    type: 'image_blob',
+                    image_blob: { blobName: source.blobName, ...(source.detail && { detail: source.detail }) }
+                });
+                continue;
+            }
+
+            const url = source.url;
+            if (typeof url !== 'string') {
+                return { error: `Message ${i} content part ${j} must have an image URL` };
+            }
+
+            if (url.startsWith('data:')) {
+                const match = IMAGE_DATA_URL_PATTERN.exec(url);
+                const payload = match ? url.substring(match[0].length) : '';
+                if (!match || !BASE64_PATTERN.test(payload)) {
+                    return { error: `Message ${i} content part ${j} must be a base64 png, jpeg, gif or webp data URL` };
+                }
+
+                const bytes = Math.floor(payload.length * 3 / 4);
+                if (bytes > this.MAX_IMAGE_BYTES) {
+                    return { error: `Message ${i} image too large (max: ${this.MAX_IMAGE_BYTES} bytes)` };
+                }
+
+                imageUsage.bytes += bytes;
+                if (imageUsage.bytes > this.MAX_IMAGE_PAYLOAD_BYTES) {
+                    return { error: `Total image payload too large (max: ${this.MAX_IMAGE_PAYLOAD_BYTES} bytes)` };
+                }
+            } else if (!url.startsWith('https://') || url.length > 2048) {
+                return { error: `Message ${i} content part ${j} image URL must be https or a data URL` };
+            }
+
+            sanitized.push({
+                type: 'image_url',
+                image_url: { url, ...(source.detail && { detail: source.detail }) }
+            });
+        }
+
+        return { value: sanitized };
+    }
+
+    /**
+     * Validate tool calls previously returned by the model and echoed back by the client
+     */
+    private static validateToolCalls(toolCalls: any, i: number): FieldResult<ToolCall[]> {
+        if (!Array.isArray(toolCalls) || toolCalls.length === 0) {
+            return { error: `Message ${i} tool_calls must be a non-empty array` };
+        }
+
+        if (toolCalls.length > this.MAX_TOOLS) {
+            return { error: `Message ${i} has too many tool_calls (max: ${this.MAX_TOOLS})` };
+        }
+
+        const sanitized: ToolCall[] = [];
+        for (let j = 0; j < toolCalls.length; j++) {
+            const call = toolCalls[j];
+
+            if (!call || typeof call !== 'object' || call.type !== 'function' ||
+                typeof call.id !== 'string' || call.id.length === 0 || call.id.length > 128) {
+                return { error: `Message ${i} tool call ${j} must have an id and type function` };
+            }
+
+            if (!call.function || typeof call.function.name !== 'string' || !FUNCTION_NAME_PATTERN.test(call.function.name)) {
+                return { error: `Message ${i} tool call ${j} must have a valid function name` };
+            }
+
+            if (typeof call.function.arguments !== 'string') {
+                return { error: `Message ${i} tool call ${j} arguments must be a string` };
+            }
+
+            if (call.function.arguments.length > this.MAX_MESSAGE_LENGTH) {
+                return { error: `Message ${i} tool call ${j} arguments too long (max: ${this.MAX_MESSAGE_LENGTH})` };
+            }
+
+            sanitized.push({
+                id: call.id,
+                type: 'function',
+                function: {
+                    name: call.function.name,
+                    arguments: call.function.arguments
+                }
+            });
+        }
+
+        return { value: sanitized };
+    }
+
+    /**
+     * Validate function tool definitions
+     */
+    private static validateTools(tools: any): FieldResult<ToolDefinition[]> {
+        if (!Array.isArray(tools) || tools.length === 0) {
+            return { error: 'tools must be a non-empty array' };
+        }
+
+        if (tools.length > this.MAX_TOOLS) {
+            return { error: `Too many tools (max: ${this.MAX_TOOLS})` };
+        }
+
+        const names = new Set<string>();
+        const sanitized: ToolDefinition[] = [];
+        for (let i = 0; i < tools.length; i++) {
+            const tool = tools[i];
+
+            if (!tool || typeof tool !== 'object' || tool.type !== 'function' || !tool.function || typeof tool.function !== 'object') {
+                return { error: `Tool ${i} must be of type function with a function definition` };
+            }
+
+            const { name, description, parameters } = tool.function;
+
+            if (typeof name !== 'string' || !FUNCTION_NAME_PATTERN.test(name)) {
+                return { error: `Tool ${i} must have a name of up to 64 letters, digits, underscores or dashes` };
+            }
+
+            if (names.has(name)) {
+                return { error: `Tool ${i} duplicates function name ${name}` };
+            }
+            names.add(name);
+
+            if (description !== undefined && typeof description !== 'string') {
+                return { error: `Tool ${i} description must be a string` };
+            }
+
+            if (parameters !== undefined && (!parameters || typeof parameters !== 'object' || Array.isArray(parameters))) {
+                return { error: `Tool ${i} parameters must be a JSON schema object` };
+            }
+
+            const definition: ToolDefinition = {
+                type: 'function',
+                function: { name }
+            };
+            if (description !== undefined) {
+                definition.function.description = description;
+            }
+            if (parameters !== undefined) {
+                definition.function.parameters = parameters;
+            }
+
+            if (JSON.stringify(definition).length > this.MAX_TOOL_DEFINITION_LENGTH) {
+                return { error: `Tool ${i} definition too long (max: ${this.MAX_TOOL_DEFINITION_LENGTH})` };
+            }
+
+            sanitized.push(definition);
+        }
+
+        return { value: sanitized };
+    }
+
+    /**
+     * Validate tool_choice against the tools supplied in the same request
+     */
+    private static validateToolChoice(toolChoice: any, tools?: ToolDefinition[]): FieldResult<ToolChoice> {
+        if (!tools) {
+            return { error: 'tool_choice requires tools' };
+        }
+
+        if (typeof toolChoice === 'string') {
+            if (!['none', 'auto', 'required'].includes(toolChoice)) {
+                return { error: 'tool_choice must be none, auto, required or a function selection' };
+            }
+            return { value: toolChoice as ToolChoice };
+        }
+
+        const name = toolChoice?.function?.name;
+        if (!toolChoice || typeof toolChoice !== 'object' || toolChoice.type !== 'function' || typeof name !== 'string') {
+            return { error: 'tool_choice must be none, auto, required or a function selection' };
+        }
+
+        if (!tools.some(tool => tool.function.name === name)) {
+            return { error: `tool_choice references unknown function ${name}` };
+        }
+
+        return { value: { type: 'function', function: { name } } };
+    }
+
+    /**
+     * Validate and sanitize an embeddings request
+     */
+    static validateEmbeddings(requestBody: any): ValidationResult<EmbeddingsRequest> {
+        try {
+            if (!requestBody || typeof requestBody !== 'object') {
+                return { ok: false, error: 'Request body must be a JSON object' };
+            }
+
+            const rawInput = requestBody.input;
+            if (rawInput === undefined || rawInput === null) {
+                return { ok: false, error: 'input is required' };
+            }
+
+            const inputs: any[] = Array.isArray(rawInput) ? rawInput : [rawInput];
+
+            if (inputs.length === 0) {
+                return { ok: false, error: 'At least one input is required' };
+            }
+
+            if (inputs.length > this.MAX_EMBEDDING_INPUTS) {
+                return { ok: false, error: `Too many inputs (max: ${this.MAX_EMBEDDING_INPUTS})` };
+            }
+
+            const sanitizedInputs: string[] = [];
+            for (let i = 0; i < inputs.length; i++) {
+                const input = inputs[i];
+
+                if (typeof input !== 'string' || input.trim().length === 0) {
+                    return { ok: false, error: `Input ${i} must be a non-empty string` };
+                }
+
+                if (input.length > this.MAX_EMBEDDING_INPUT_LENGTH) {
+                    return { ok: false, error: `Input ${i} too long (max: ${this.MAX_EMBEDDING_INPUT_LENGTH})` };
+                }
+
+                sanitizedInputs.push(input);
+            }
+
+            const sanitizedRequest: EmbeddingsRequest = {
+                input: Array.isArray(rawInput) ? sanitizedInputs : sanitizedInputs[0]
+            };
+
+            if (requestBody.dimensions !== undefined) {
+                const dimensions = Number(requestBody.dimensions);
+                if (!Number.isInteger(dimensions) || dimensions < 1 || dimensions > 4096) {
+                    return { ok: false, error: 'dimensions must be an integer between 1 and 4096' };
+                }
+                sanitizedRequest.dimensions = dimensions;
+            }
+
+            if (requestBody.encoding_format !== undefined) {
+                if (!['float', 'base64'].includes(requestBody.encoding_format)) {
+                    return { ok: false, error: 'encoding_format must be float or base64' };
+                }
+                sanitizedRequest.encoding_format = requestBody.encoding_format;
             }
 
             return { ok: true, sanitizedRequest };
@@ -3,6 +3,8 @@ export interface OpenAIConfig {
     apiKey: string;
     deployment?: string;
     apiVersion?: string;
+    name?: string;    // Label used in logs and diagnostics when several endpoints are pooled
+    weight?: number;  // Relative share of traffic under weighted load balancing
 }
 
 export interface ApiResponse<T = any> {
@@ -24,11 +26,68 @@ export interface SuccessResponse<T> {
 }
 
 // OpenAI API Types
+export type ChatRole = 'system' | 'user' | 'assistant' | 'tool';
+
 export interface ChatMessage {
-    role: 'system' | 'user' | 'assistant';
-    content: string;
+    role: ChatRole;
+    // Content parts are only accepted on user messages; null only for assistant messages that carry tool_calls
+    content: string | ChatContentPart[] | null;
+    tool_calls?: ToolCall[];
+    tool_call_id?: string;
+}
+
+export type ChatContentPart = TextContentPart | ImageUrlContentPart | ImageBlobContentPart;
+
+export type ImageDetail = 'auto' | 'low' | 'high';
+
+export interface TextContentPart {
+    type: 'text';
+    text: string;
 }
 
+export interface ImageUrlContentPart {
+    type: 'image_url';
+    image_url: {
+        // https:// URL or data:image/...;base64, URL
+        url: string;
+        detail?: ImageDetail;
+    };
+}
+
+// Proxy-only part: an image previously uploaded through blobProxy, resolved to
+// an image_url part before the request is forwarded to Azure OpenAI
+export interface ImageBlobContentPart {
+    type: 'image_blob';
+    image_blob: {
+        blobName: string;
+        detail?: ImageDetail;
+    };
+}
+
+export interface ToolCall {
+    id: string;
+    type: 'function';
+    function: {
+        name: string;
+        // JSON-encoded arguments as produced by the model
+        arguments: string;
+    };
+}
+
+export interface ToolDefinition {
+    type: 'function';
+    function: {
+        name: string;
+        description?: string;
+        parameters?: Record<string, any>;
+    };
+}
+
+export type ToolChoice = 'none' | 'auto' | 'required' | {
+    type: 'function';
+    function: { name: string };
+};
+
 export interface ChatCompletionRequest {
     messages: ChatMessage[];
     max_tokens?: number;
@@ -38,11 +97,20 @@ export interface ChatCompletionRequest {
     presence_penalty?: number;
     stop?: string | string[];
     stream?: boolean;
+    stream_options?: ChatCompletionStreamOptions;
+    tools?: ToolDefinition[];
+    tool_choice?: ToolChoice;
+    parallel_tool_calls?: boolean;
+}
+
+export interface ChatCompletionStreamOptions {
+    include_usage?: boolean;
 }
 
 export interface ChatCompletionChoice {
     index: number;
     message: ChatMessage;
+    // 'tool_calls' when the model wants the client to run functions
     finish_reason: string;
 }
 
@@ -61,6 +129,64 @@ export interface ChatCompletionResponse {
     usage: ChatCompletionUsage;
 }
 
+// Streamed tool calls arrive in fragments keyed by index
+export interface ToolCallDelta {
+    index: number;
+    id?: string;
+    type?: 'function';
+    function?: {
+        name?: string;
+        arguments?: string;
+    };
+}
+
+export interface ChatCompletionDelta {
+    role?: ChatRole;
+    content?: string | null;
+    tool_calls?: ToolCallDelta[];
+}
+
+export interface ChatCompletionChunkChoice {
+    index: number;
+    delta: ChatCompletionDelta;
+    finish_reason: string | null;
+}
+
+// A single `data:` event of a streamed chat completion
+export interface ChatCompletionChunk {
+    id: string;
+    object: string;
+    created: number;
+    model: string;
+    choices: ChatCompletionChunkChoice[];
+    usage?: ChatCompletionUsage | null;
+}
+
+export interface EmbeddingsRequest {
+    input: string | string[];
+    dimensions?: number;
+    encoding_format?: 'float' | 'base64';
+    user?: string;
+}
+
+export interface EmbeddingData {
+    object: string;
+    index: number;
+    embedding: number[] | string;
+}
+
+export interface EmbeddingsUsage {
+    prompt_tokens: number;
+    total_tokens: number;
+}
+
+export interface EmbeddingsResponse {
+    object: string;
+    model: string;
+    data: EmbeddingData[];
+    usage: EmbeddingsUsage;
+}
+
 // Azure Blob Storage Types
 export interface BlobStorageConfig {
     connectionString?: string;
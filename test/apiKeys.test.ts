@@ -0,0 +1,90 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { createHash } from 'crypto';
+import { MemoryStateStore } from '../src/services/stateStore';
+import { ApiKeyRecord, ApiKeyStore } from '../src/services/apiKeys';
+import { AuthenticatedUser, canUseDeployment, hasScope } from '../src/services/auth';
+
+function createStore(): { store: MemoryStateStore; keys: ApiKeyStore } {
+    const store = new MemoryStateStore();
+    return { store, keys: new ApiKeyStore(store, 60 * 1000) };
+}
+
+test('only a hash of the key is stored, and summaries never include it', async () => {
+    const { store, keys } = createStore();
+    const { key, record } = await keys.create({ name: 'reporting', scopes: ['chat'] });
+
+    assert.match(key, /^pk_[a-f0-9]{16}_[A-Za-z0-9_-]{43}$/);
+    assert.equal('hash' in record, false);
+
+    const stored = (await store.get<ApiKeyRecord>(`keys:${record.id}`))!.value;
+    assert.equal(stored.hash, createHash('sha256').update(key).digest('hex'));
+    assert.doesNotMatch(JSON.stringify(stored), new RegExp(key.split('_')[2]));
+
+    const listed = await keys.list();
+    assert.deepEqual(listed.map(summary => summary.id), [record.id]);
+    assert.equal('hash' in listed[0], false);
+});
+
+test('verify accepts the issued key and rejects altered, malformed and unknown keys', async () => {
+    const { keys } = createStore();
+    const { key, record } = await keys.create({ name: 'app', scopes: ['chat'] });
+
+    assert.equal((await keys.verify(key))?.id, record.id);
+
+    const last = key[key.length - 1] === 'A' ? 'B' : 'A';
+    assert.equal(await keys.verify(key.slice(0, -1) + last), null);
+    assert.equal(await keys.verify('pk_not-a-key'), null);
+    assert.equal(await keys.verify(`pk_${'0'.repeat(16)}_${key.split('_')[2]}`), null);
+});
+
+test('a revoked key stops working at once on the instance that revoked it', async () => {
+    const { keys } = createStore();
+    const { key, record } = await keys.create({ name: 'app', scopes: ['chat'] });
+    assert.ok(await keys.verify(key));
+
+    const revoked = await keys.revoke(record.id);
+    assert.ok(revoked?.revokedAt);
+    assert.equal(await keys.verify(key), null);
+    assert.equal(await keys.revoke('0'.repeat(16)), null);
+});
+
+test('an expired key is rejected', async (t) => {
+    const { keys } = createStore();
+    const { key } = await keys.create({ name: 'temporary', scopes: ['chat'], expiresInDays: 1 });
+    assert.ok(await keys.verify(key));
+
+    const realNow = Date.now();
+    t.mock.method(Date, 'now', () => realNow + 2 * 24 * 60 * 60 * 1000);
+    assert.equal(await keys.verify(key), null);
+});
+
+test('scopes and deployments of a key restrict what its caller may do', async () => {
+    const { keys } = createStore();
+    const { key } = await keys.create({ name: 'app', scopes: ['chat', 'blob:read'], deployments: ['gpt-4o', 'fast'] });
+    const user: AuthenticatedUser = { userId: 'apikey-1', method: 'apikey', apiKey: (await keys.verify(key))! };
+
+    assert.equal(hasScope(user, 'chat'), true);
+    assert.equal(hasScope(user, 'blob:read'), true);
+    assert.equal(hasScope(user, 'embeddings'), false);
+    assert.equal(hasScope(user, 'blob:write'), false);
+
+    assert.equal(canUseDeployment(user, 'gpt-4o', 'gpt-4o'), true);
+    assert.equal(canUseDeployment(user, 'gpt-4o-mini', 'fast'), true);
+    assert.equal(canUseDeployment(user, 'gpt-4o-mini', 'gpt-4o-mini'), false);
+
+    // Callers without an API key or proxy token are not restricted
+    const jwtUser: AuthenticatedUser = { userId: 'alice', method: 'jwt' };
+    assert.equal(hasScope(jwtUser, 'blob:write'), true);
+    assert.equal(canUseDeployment(jwtUser, 'gpt-4o-mini', 'gpt-4o-mini'), true);
+});
+
+test('create requests are validated before a key is minted', () => {
+    assert.equal(ApiKeyStore.validateCreate({ name: 'app', scopes: ['chat'], rateLimit: { rps: 2 }, expiresInDays: 30 }), null);
+    assert.match(ApiKeyStore.validateCreate({ scopes: ['chat'] })!, /name is required/);
+    assert.match(ApiKeyStore.validateCreate({ name: 'app', scopes: [] })!, /scopes must be/);
+    assert.match(ApiKeyStore.validateCreate({ name: 'app', scopes: ['admin'] })!, /scopes must be/);
+    assert.match(ApiKeyStore.validateCreate({ name: 'app', scopes: ['chat'], deployments: [''] })!, /deployments must be/);
+    assert.match(ApiKeyStore.validateCreate({ name: 'app', scopes: ['chat'], rateLimit: { tpm: 0 } })!, /rateLimit.tpm/);
+    assert.match(ApiKeyStore.validateCreate({ name: 'app', scopes: ['chat'], expiresInDays: -1 })!, /expiresInDays/);
+});
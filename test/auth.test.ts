@@ -0,0 +1,145 @@
+import { test, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { generateKeyPairSync, sign, KeyObject } from 'crypto';
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { AuthConfig, Authenticator } from '../src/services/auth';
+
+const ISSUER = 'https://login.example.com/tenant';
+const AUDIENCE = 'api://proxy';
+
+const directory = mkdtempSync(join(tmpdir(), 'auth-test-'));
+after(() => rmSync(directory, { recursive: true, force: true }));
+
+function keyPair(kid: string): { kid: string; privateKey: KeyObject; jwk: object } {
+    const { publicKey, privateKey } = generateKeyPairSync('rsa', { modulusLength: 2048 });
+    return { kid, privateKey, jwk: { ...publicKey.export({ format: 'jwk' }), kid, use: 'sig' } };
+}
+
+function writeJwks(path: string, ...keys: Array<{ jwk: object }>): void {
+    writeFileSync(path, JSON.stringify({ keys: keys.map(key => key.jwk) }));
+}
+
+function encode(value: object): string {
+    return Buffer.from(JSON.stringify(value)).toString('base64url');
+}
+
+function createToken(key: { kid: string; privateKey: KeyObject }, claims: object, header: object = {}): string {
+    const now = Math.floor(Date.now() / 1000);
+    const signingInput = `${encode({ alg: 'RS256', kid: key.kid, ...header })}.${encode({ iss: ISSUER, aud: AUDIENCE, sub: 'alice', exp: now + 300, ...claims })}`;
+    return `${signingInput}.${sign('sha256', Buffer.from(signingInput), key.privateKey).toString('base64url')}`;
+}
+
+function createAuthenticator(jwksUri: string, overrides: Partial<AuthConfig> = {}): Authenticator {
+    return new Authenticator({
+        mode: 'jwt',
+        jwksUri,
+        issuers: [ISSUER],
+        audiences: [AUDIENCE],
+        algorithms: ['RS256'],
+        userClaim: 'sub',
+        clockToleranceSeconds: 60,
+        jwksCacheMs: 10 * 60 * 1000,
+        ...overrides
+    });
+}
+
+const primary = keyPair('primary');
+const jwksPath = join(directory, 'jwks.json');
+writeJwks(jwksPath, primary);
+
+test('a valid token is accepted and yields its claims', async () => {
+    const claims = await createAuthenticator(jwksPath).verify(createToken(primary, { oid: 'object-1' }));
+    assert.equal(claims.sub, 'alice');
+    assert.equal(claims.oid, 'object-1');
+});
+
+test('a token with a tampered payload or signature is rejected', async () => {
+    const authenticator = createAuthenticator(jwksPath);
+    const [header, , signature] = createToken(primary, {}).split('.');
+    const forged = `${header}.${encode({ iss: ISSUER, aud: AUDIENCE, sub: 'mallory', exp: Math.floor(Date.now() / 1000) + 300 })}.${signature}`;
+    await assert.rejects(authenticator.verify(forged), /signature is invalid/);
+
+    // Same key ID, different key
+    const otherKey = keyPair('primary');
+    await assert.rejects(authenticator.verify(createToken(otherKey, {})), /signature is invalid/);
+});
+
+test('expiry and not-before are enforced with the clock tolerance', async () => {
+    const authenticator = createAuthenticator(jwksPath);
+    const now = Math.floor(Date.now() / 1000);
+
+    await assert.rejects(authenticator.verify(createToken(primary, { exp: now - 120 })), /expired/);
+    await assert.rejects(authenticator.verify(createToken(primary, { exp: undefined })), /expired/);
+    await assert.rejects(authenticator.verify(createToken(primary, { nbf: now + 120 })), /not yet valid/);
+    await authenticator.verify(createToken(primary, { exp: now - 30, nbf: now + 30 }));
+});
+
+test('issuer and audience must be allowed', async () => {
+    const authenticator = createAuthenticator(jwksPath);
+
+    await assert.rejects(authenticator.verify(createToken(primary, { iss: 'https://evil.example.com' })), /issuer is not allowed/);
+    await assert.rejects(authenticator.verify(createToken(primary, { aud: 'api://other' })), /audience is not allowed/);
+    await authenticator.verify(createToken(primary, { aud: ['api://other', AUDIENCE] }));
+});
+
+test('only allowlisted algorithms are accepted', async () => {
+    const authenticator = createAuthenticator(jwksPath);
+
+    await assert.rejects(authenticator.verify(createToken(primary, {}, { alg: 'none' })), /algorithm is not allowed/);
+    await assert.rejects(authenticator.verify(createToken(primary, {}, { alg: 'HS256' })), /algorithm is not allowed/);
+    // Supported, but not in AUTH_ALGORITHMS
+    await assert.rejects(authenticator.verify(createToken(primary, {}, { alg: 'RS384' })), /algorithm is not allowed/);
+});
+
+test('an unknown key ID refreshes the JWKS so rotated keys are picked up', async (t) => {
+    const path = join(directory, 'rotating.json');
+    writeJwks(path, primary);
+    const authenticator = createAuthenticator(path);
+    await authenticator.verify(createToken(primary, {}));
+
+    const rotated = keyPair('rotated');
+    writeJwks(path, primary, rotated);
+
+    // Within the minimum refresh interval the cached set is still used
+    await assert.rejects(authenticator.verify(createToken(rotated, {})), /signing key is unknown/);
+
+    const realNow = Date.now();
+    t.mock.method(Date, 'now', () => realNow + 60 * 1000);
+    const claims = await authenticator.verify(createToken(rotated, { exp: Math.floor(realNow / 1000) + 300 }));
+    assert.equal(claims.sub, 'alice');
+});
+
+test('the last good keys are kept when the JWKS becomes unreadable', async (t) => {
+    const path = join(directory, 'flaky.json');
+    writeJwks(path, primary);
+    const authenticator = createAuthenticator(path, { jwksCacheMs: 1000 });
+    await authenticator.verify(createToken(primary, {}));
+
+    writeFileSync(path, 'not json');
+    const realNow = Date.now();
+    t.mock.method(Date, 'now', () => realNow + 60 * 1000);
+    await authenticator.verify(createToken(primary, { exp: Math.floor(realNow / 1000) + 300 }));
+});
+
+test('a JWKS that cannot be loaded at all is reported as unavailable, not as a bad token', async () => {
+    const authenticator = createAuthenticator(join(directory, 'missing.json'));
+    const headers = new Headers({ authorization: `Bearer ${createToken(primary, {})}` });
+
+    const result = await authenticator.authenticate(headers);
+    assert.equal(result.ok, false);
+    assert.equal(result.status, 503);
+});
+
+test('authenticate maps a verified token to its user and rejects missing tokens', async () => {
+    const authenticator = createAuthenticator(jwksPath);
+
+    const result = await authenticator.authenticate(new Headers({ authorization: `Bearer ${createToken(primary, {})}` }));
+    assert.equal(result.ok, true);
+    assert.equal(result.user?.userId, 'alice');
+    assert.equal(result.user?.method, 'jwt');
+
+    const missing = await authenticator.authenticate(new Headers());
+    assert.equal(missing.status, 401);
+});
@@ -0,0 +1,75 @@
+import { test, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { BlobServiceClient } from '@azure/storage-blob';
+import { BlobStorageService } from '../src/services/blobStorageService';
+import { BlobStateStore } from '../src/services/stateStore';
+
+// Runs against Azurite (or a real account), e.g. AZURITE_CONNECTION_STRING=UseDevelopmentStorage=true
+const connectionString = process.env.AZURITE_CONNECTION_STRING;
+const skip = !connectionString && 'AZURITE_CONNECTION_STRING is not set';
+const containerName = `state-test-${Date.now()}`;
+
+function createService(): BlobStorageService {
+    return new BlobStorageService({ connectionString, containerName });
+}
+
+after(async () => {
+    if (connectionString) {
+        await BlobServiceClient.fromConnectionString(connectionString).getContainerClient(containerName).deleteIfExists();
+    }
+});
+
+test('blob store reads, writes and lists keys', { skip }, async () => {
+    const store = new BlobStateStore(async () => createService());
+
+    assert.equal(await store.get('missing:key'), null);
+    assert.equal(await store.set('list:a', { count: 1 }), true);
+    assert.equal(await store.set('list:b', { count: 2 }), true);
+
+    const stored = await store.get<{ count: number }>('list:a');
+    assert.deepEqual(stored?.value, { count: 1 });
+    assert.deepEqual((await store.list('list:')).sort(), ['list:a', 'list:b']);
+
+    await store.delete('list:b');
+    assert.equal(await store.get('list:b'), null);
+});
+
+test('blob store honours ETag conditions', { skip }, async () => {
+    const store = new BlobStateStore(async () => createService());
+
+    assert.equal(await store.set('cond:key', 'first', { ifNoneMatch: true }), true);
+    assert.equal(await store.set('cond:key', 'second', { ifNoneMatch: true }), false);
+
+    const { etag } = await store.get<string>('cond:key');
+    assert.equal(await store.set('cond:key', 'third', { ifMatch: etag }), true);
+    assert.equal(await store.set('cond:key', 'fourth', { ifMatch: etag }), false);
+    assert.equal((await store.get<string>('cond:key')).value, 'third');
+});
+
+test('blob store updates survive concurrent writers', { skip }, async () => {
+    const stores = [0, 1, 2].map(() => new BlobStateStore(async () => createService(), 50));
+
+    await Promise.all(stores.flatMap(store => [1, 2, 3].map(() =>
+        store.update<number, void>('update:counter', current => ({ value: (current || 0) + 1, result: undefined })))));
+
+    assert.equal((await stores[0].get<number>('update:counter')).value, 9);
+});
+
+test('an expired blob refreshed before the lazy delete is kept', { skip }, async () => {
+    const service = createService();
+    const store = new BlobStateStore(async () => service);
+    const writer = new BlobStateStore(async () => createService());
+
+    await store.set('expiry:key', 'old', { ttlMs: 1 });
+    await new Promise(resolve => setTimeout(resolve, 10));
+
+    // Another instance rewrites the blob between this read and its delete
+    const deleteBlob = service.deleteBlob.bind(service);
+    service.deleteBlob = async (blobName, conditions) => {
+        await writer.set('expiry:key', 'fresh');
+        return deleteBlob(blobName, conditions);
+    };
+
+    assert.equal(await store.get('expiry:key'), null);
+    assert.equal((await store.get<string>('expiry:key')).value, 'fresh');
+});
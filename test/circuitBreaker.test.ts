@@ -0,0 +1,38 @@
+import { test, TestContext } from 'node:test';
+import assert from 'node:assert/strict';
+import { CircuitBreaker } from '../src/services/circuitBreaker';
+
+const KEY = CircuitBreaker.keyFor('default', 'gpt-4o');
+
+// Open the circuit, then let the open period pass so the next attempt is a probe
+function halfOpen(t: TestContext, breaker: CircuitBreaker): void {
+    breaker.onFailure(KEY, 'AOAI 500');
+    const realNow = Date.now();
+    t.mock.method(Date, 'now', () => realNow + 2000);
+    breaker.onAttempt(KEY);
+}
+
+test('a throttled half-open probe does not close the circuit', (t) => {
+    const breaker = new CircuitBreaker(1, 1000, 1);
+    halfOpen(t, breaker);
+    assert.equal(breaker.isAvailable(KEY), false);
+
+    breaker.onInconclusive(KEY);
+    assert.equal(breaker.getStatus().circuits[KEY].state, 'half-open');
+    // The probe slot is free again for the next attempt
+    assert.equal(breaker.isAvailable(KEY), true);
+
+    breaker.onAttempt(KEY);
+    breaker.onSuccess(KEY);
+    assert.equal(breaker.getStatus().circuits[KEY].state, 'closed');
+});
+
+test('client errors do not reset the consecutive failure count', () => {
+    const breaker = new CircuitBreaker(3, 1000, 1);
+    breaker.onFailure(KEY, 'AOAI 500');
+    breaker.onFailure(KEY, 'AOAI 502');
+    breaker.onInconclusive(KEY);
+    breaker.onFailure(KEY, 'AOAI 503');
+
+    assert.equal(breaker.getStatus().circuits[KEY].state, 'open');
+});
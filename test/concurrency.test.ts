@@ -0,0 +1,24 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { Semaphore } from '../src/services/concurrency';
+
+test('queue status reports aggregates, never user IDs', async () => {
+    const semaphore = new Semaphore(1, 4, 10, 1000);
+    const release = await semaphore.acquire();
+    const controller = new AbortController();
+    const waits = [
+        semaphore.acquire({ userId: 'alice', signal: controller.signal }),
+        semaphore.acquire({ userId: 'alice', signal: controller.signal }),
+        semaphore.acquire({ userId: 'bob', signal: controller.signal })
+    ].map(wait => wait.catch(() => undefined));
+
+    const status = semaphore.getStatus().queues.interactive;
+    assert.equal(status.waiting, 3);
+    assert.equal(status.users, 2);
+    assert.equal(status.maxPerUser, 2);
+    assert.doesNotMatch(JSON.stringify(semaphore.getStatus()), /alice|bob/);
+
+    controller.abort();
+    await Promise.all(waits);
+    release();
+});
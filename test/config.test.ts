@@ -0,0 +1,36 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { configReport, loadConfig } from '../src/services/config';
+
+test('AUTH_JWKS_URI accepts https URLs, file:// URLs and local paths', () => {
+    for (const uri of ['https://login.example.com/keys', 'file:///etc/proxy/jwks.json', './jwks.json', '/etc/proxy/jwks.json']) {
+        assert.equal(loadConfig({ AUTH_JWKS_URI: uri }).AUTH_JWKS_URI, uri);
+    }
+});
+
+test('url settings still reject non-http URLs', () => {
+    assert.throws(() => loadConfig({ KEY_VAULT_URL: 'file:///vault' }), /KEY_VAULT_URL must be an http or https URL/);
+});
+
+test('configReport only shows whether secret and sensitive settings are set', () => {
+    const env = {
+        AZURE_OPENAI_ENDPOINT: 'https://contoso.openai.azure.com',
+        AZURE_OPENAI_API_KEY: 'key',
+        AUTH_ISSUER: 'https://login.example.com/tenant',
+        MAX_PARALLEL_AOAI: '3'
+    };
+    const report = configReport(env, loadConfig(env));
+
+    assert.equal(report.AZURE_OPENAI_ENDPOINT, 'SET');
+    assert.equal(report.AZURE_OPENAI_API_KEY, 'SET');
+    assert.equal(report.AUTH_ISSUER, 'SET');
+    assert.equal(report.KEY_VAULT_URL, 'NOT SET');
+    assert.equal(report.ALLOWED_ORIGINS, 'NOT SET');
+    assert.equal(report.MAX_PARALLEL_AOAI, '3');
+    assert.ok(!Object.values(report).some(value => value.includes('contoso') || value.includes('login.example.com')));
+});
+
+test('AOAI_MAX_RETRIES must allow at least one attempt', () => {
+    assert.throws(() => loadConfig({ AOAI_MAX_RETRIES: '0' }), /AOAI_MAX_RETRIES/);
+    assert.equal(loadConfig({ AOAI_MAX_RETRIES: '1' }).AOAI_MAX_RETRIES, 1);
+});
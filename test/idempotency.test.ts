@@ -0,0 +1,33 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { MemoryStateStore } from '../src/services/stateStore';
+import { IdempotencyManager } from '../src/services/idempotency';
+
+function activeTimers(): number {
+    return process.getActiveResourcesInfo().filter(resource => resource === 'Timeout').length;
+}
+
+test('a waiter replays the owner\'s response and leaves no timer behind', async () => {
+    const manager = new IdempotencyManager(60 * 1000, 60 * 1000, 60 * 1000, 250, new MemoryStateStore());
+    const baseline = activeTimers();
+
+    const owner = await manager.claim('alice', 'key-1', 'hash', 'request-1');
+    assert.equal(owner.outcome, 'acquired');
+
+    const waiting = manager.claim('alice', 'key-1', 'hash', 'request-2');
+    await new Promise(resolve => setImmediate(resolve));
+    if (owner.outcome === 'acquired') {
+        await owner.complete({ success: true, data: { id: 'completion-1' } });
+    }
+
+    const duplicate = await waiting;
+    assert.equal(duplicate.outcome, 'replay');
+    assert.deepEqual(duplicate.outcome === 'replay' && duplicate.response.data, { id: 'completion-1' });
+    assert.equal(activeTimers(), baseline);
+});
+
+test('a key reused with a different body is a conflict', async () => {
+    const manager = new IdempotencyManager(60 * 1000, 60 * 1000, 60 * 1000, 250, new MemoryStateStore());
+    await manager.claim('alice', 'key-1', 'hash', 'request-1');
+    assert.equal((await manager.claim('alice', 'key-1', 'other-hash', 'request-2')).outcome, 'conflict');
+});
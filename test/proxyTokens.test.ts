@@ -0,0 +1,87 @@
+import { test, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { createHmac } from 'crypto';
+import { ProxyTokenError, ProxyTokenService } from '../src/services/proxyTokens';
+
+// Read through the environment secret provider, which sees changes immediately
+const KEY_ENV = 'TEST_PROXY_TOKEN_SIGNING_KEY';
+const SIGNING_KEY = 'k'.repeat(48);
+
+afterEach(() => {
+    delete process.env[KEY_ENV];
+});
+
+function createService(ttlSeconds: number = 300): ProxyTokenService {
+    process.env[KEY_ENV] = SIGNING_KEY;
+    return new ProxyTokenService(ttlSeconds, { env: KEY_ENV });
+}
+
+function signed(payload: object, key: string = SIGNING_KEY): string {
+    const encoded = Buffer.from(JSON.stringify(payload)).toString('base64url');
+    return `pt_${encoded}.${createHmac('sha256', key).update(encoded).digest('base64url')}`;
+}
+
+test('an issued token verifies and carries its user, scopes and deployments', async () => {
+    const service = createService();
+    const issued = await service.issue('alice', ['gpt-4o']);
+
+    const claims = await service.verify(issued.token);
+    assert.equal(claims.sub, 'alice');
+    assert.deepEqual(claims.deployments, ['gpt-4o']);
+    assert.deepEqual(claims.scopes, ['chat', 'embeddings', 'interactive']);
+    assert.equal(issued.expiresAt, new Date(claims.exp * 1000).toISOString());
+});
+
+test('a tampered payload or signature is rejected', async () => {
+    const service = createService();
+    const [payload, signature] = (await service.issue('alice')).token.slice('pt_'.length).split('.');
+
+    const claims = JSON.parse(Buffer.from(payload, 'base64url').toString('utf8'));
+    const escalated = Buffer.from(JSON.stringify({ ...claims, sub: 'admin' })).toString('base64url');
+    await assert.rejects(service.verify(`pt_${escalated}.${signature}`), /signature is invalid/);
+
+    const flipped = (signature[0] === 'A' ? 'B' : 'A') + signature.slice(1);
+    await assert.rejects(service.verify(`pt_${payload}.${flipped}`), /signature is invalid/);
+    await assert.rejects(service.verify(signed(claims, 'x'.repeat(48))), /signature is invalid/);
+});
+
+test('malformed tokens are rejected even with a valid signature', async () => {
+    const service = createService();
+    const exp = Math.floor(Date.now() / 1000) + 300;
+
+    await assert.rejects(service.verify('pt_nodot'), ProxyTokenError);
+    await assert.rejects(service.verify(signed({ scopes: ['chat'], exp })), /malformed/);
+    await assert.rejects(service.verify(signed({ sub: 'alice', exp })), /malformed/);
+    await assert.rejects(service.verify(signed({ sub: 'alice', scopes: ['chat'], exp: String(exp) })), /malformed/);
+});
+
+test('an expired token is rejected', async (t) => {
+    const service = createService(60);
+    const { token } = await service.issue('alice');
+
+    const realNow = Date.now();
+    t.mock.method(Date, 'now', () => realNow + 61 * 1000);
+    await assert.rejects(service.verify(token), /expired/);
+});
+
+test('rotating the signing key invalidates tokens signed with the old key', async () => {
+    const service = createService();
+    const { token } = await service.issue('alice');
+
+    process.env[KEY_ENV] = 'r'.repeat(48);
+    await assert.rejects(service.verify(token), /signature is invalid/);
+
+    const rotated = await service.issue('alice');
+    assert.equal((await service.verify(rotated.token)).sub, 'alice');
+});
+
+test('a missing or short signing key is an outage, not a bad token', async () => {
+    const service = createService();
+    const { token } = await service.issue('alice');
+
+    process.env[KEY_ENV] = 'too-short';
+    await assert.rejects(service.verify(token), (error: Error) => !(error instanceof ProxyTokenError) && /at least 32/.test(error.message));
+
+    delete process.env[KEY_ENV];
+    await assert.rejects(service.verify(token), (error: Error) => !(error instanceof ProxyTokenError));
+});
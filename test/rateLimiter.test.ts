@@ -0,0 +1,28 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { MemoryStateStore } from '../src/services/stateStore';
+import { RateLimiter, TokenBudgetLimiter } from '../src/services/rateLimiter';
+
+test('rate limiter status reports aggregates, never user IDs', async () => {
+    const limiter = new RateLimiter(1, 1, new MemoryStateStore());
+    await limiter.allow('global');
+    await limiter.allow('user:alice');
+    await limiter.allow('user:bob');
+
+    const status = await limiter.getStatus();
+    assert.equal(status.bucketCount, 3);
+    assert.equal(status.userBucketCount, 2);
+    assert.equal(status.global?.tokens, 0);
+    assert.doesNotMatch(JSON.stringify(status), /alice|bob/);
+});
+
+test('token budget status reports aggregates, never user IDs', async () => {
+    const limiter = new TokenBudgetLimiter(6000, 600, new MemoryStateStore());
+    await limiter.reserve('alice', 100);
+
+    const status = await limiter.getStatus();
+    assert.equal(status.bucketCount, 2);
+    assert.equal(status.userBucketCount, 1);
+    assert.equal(status.global?.capacity, 6000);
+    assert.doesNotMatch(JSON.stringify(status), /alice/);
+});
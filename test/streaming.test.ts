@@ -0,0 +1,81 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { ReadableStream } from 'stream/web';
+import { relayEventStream, StreamSummary } from '../src/services/streaming';
+
+const USAGE = { prompt_tokens: 12, completion_tokens: 3, total_tokens: 15 };
+
+// Upstream SSE body delivered in the given pieces, like network reads
+function upstream(pieces: string[]): ReadableStream<Uint8Array> {
+    const encoder = new TextEncoder();
+    return new ReadableStream<Uint8Array>({
+        start(controller) {
+            pieces.forEach(piece => controller.enqueue(encoder.encode(piece)));
+            controller.close();
+        }
+    });
+}
+
+async function relay(pieces: string[], stripUsage: boolean): Promise<{ text: string; summary: StreamSummary }> {
+    let summary: StreamSummary | undefined;
+    const body = relayEventStream(upstream(pieces), closed => { summary = closed; }, { stripUsage });
+
+    const decoder = new TextDecoder();
+    let text = '';
+    for await (const chunk of body) {
+        text += decoder.decode(chunk, { stream: true });
+    }
+    return { text, summary: summary! };
+}
+
+const events = [
+    'data: {"choices":[{"delta":{"content":"Hi"}}],"usage":null}\n\n',
+    `data: {"choices":[],"usage":${JSON.stringify(USAGE)}}\n\n`,
+    'data: [DONE]\n\n'
+];
+
+test('usage is recorded and relayed when the client asked for it', async () => {
+    const { text, summary } = await relay(events, false);
+    assert.equal(text, events.join(''));
+    assert.deepEqual(summary.usage, USAGE);
+    assert.equal(summary.outcome, 'completed');
+});
+
+test('usage chunk is dropped but still recorded when the client did not ask for it', async () => {
+    const { text, summary } = await relay(events, true);
+    assert.equal(text, events[0] + events[2]);
+    assert.deepEqual(summary.usage, USAGE);
+    assert.equal(summary.chunkCount, 1);
+});
+
+test('events split across reads are reassembled before the usage chunk is dropped', async () => {
+    const joined = events.join('');
+    const pieces = [joined.slice(0, 30), joined.slice(30, 90), joined.slice(90, 91), joined.slice(91)];
+    const { text, summary } = await relay(pieces, true);
+    assert.equal(text, events[0] + events[2]);
+    assert.deepEqual(summary.usage, USAGE);
+});
+
+test('a stalled upstream is cancelled once the idle timeout passes', async () => {
+    let cancelled = false;
+    const stalled = new ReadableStream<Uint8Array>({
+        start(controller) {
+            controller.enqueue(new TextEncoder().encode(events[0]));
+        },
+        cancel() {
+            cancelled = true;
+        }
+    });
+
+    let summary: StreamSummary | undefined;
+    const body = relayEventStream(stalled, closed => { summary = closed; }, { idleTimeoutMs: 50 });
+
+    await assert.rejects(async () => {
+        for await (const chunk of body) {
+            assert.ok(chunk.byteLength > 0);
+        }
+    }, /idle for 50ms/);
+    assert.equal(summary?.outcome, 'aborted');
+    assert.equal(summary?.chunkCount, 1);
+    assert.ok(cancelled);
+});
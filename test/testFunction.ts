@@ -1,5 +1,7 @@
 // Simple test script to verify the function works locally
 import { getOpenAISecrets } from '../src/functions/getOpenAISecrets';
+import { Logger } from '../src/services/logger';
+import { RequestContext } from '../src/services/middleware';
 
 // Mock HttpRequest and InvocationContext for testing
 const mockRequest = {
@@ -18,11 +20,20 @@ const mockContext = {
     }
 } as any;
 
+// What the middleware pipeline would have set up for an authenticated caller
+const mockRequestContext: RequestContext = {
+    invocation: mockContext,
+    requestId: 'local-test',
+    logger: new Logger(mockContext),
+    startTime: Date.now(),
+    user: { userId: 'local-test-user', method: 'header' }
+};
+
 async function testFunction() {
     console.log('Testing Azure Function...');
     
     try {
-        const result = await getOpenAISecrets(mockRequest, mockContext);
+        const result = await getOpenAISecrets(mockRequest, mockRequestContext);
         console.log('Function result:', result);
         
         if (result.body) {
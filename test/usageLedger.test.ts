@@ -0,0 +1,21 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { MemoryStateStore } from '../src/services/stateStore';
+import { UsageLedger } from '../src/services/usageLedger';
+
+test('estimated usage is counted and priced, and flagged in the report', async () => {
+    const ledger = new UsageLedger({ 'gpt-4o': { prompt: 1, completion: 2 } }, 'USD', 30, new MemoryStateStore());
+    const base = { userId: 'alice', deployment: 'gpt-4o', operation: 'chat' as const, outcome: 'success' as const, latencyMs: 100 };
+
+    await ledger.record({ ...base, promptTokens: 1000, completionTokens: 500, totalTokens: 1500 });
+    await ledger.record({ ...base, promptTokens: 2000, completionTokens: 1000, totalTokens: 3000, estimated: true });
+
+    const today = new Date().toISOString().substring(0, 10);
+    const report = await ledger.report({ from: today, to: today });
+
+    assert.equal(report.totals.requests, 2);
+    assert.equal(report.totals.estimatedRequests, 1);
+    assert.equal(report.totals.totalTokens, 4500);
+    assert.equal(report.totals.cost, 6);
+    assert.equal(report.byUser.alice.estimatedRequests, 1);
+});